@@ -0,0 +1,53 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.28;
+
+interface ITransientLockVault {
+    function deposit() external payable;
+    function withdraw() external;
+    function isLocked() external view returns (bool);
+}
+
+/**
+ * @title ReentrancyAttacker
+ * @notice Re-enters TransientLockVault.withdraw() from its receive function
+ */
+contract ReentrancyAttacker {
+    ITransientLockVault public immutable vault;
+    bool public reenter;
+    bool public lockSeenDuringCall;
+    string public reentryError;
+
+    constructor(ITransientLockVault _vault) {
+        vault = _vault;
+    }
+
+    /**
+     * @notice Deposit, then withdraw; with reenter set, receive() calls withdraw() again
+     */
+    function attack(bool _reenter) external payable {
+        reenter = _reenter;
+        vault.deposit{value: msg.value}();
+        vault.withdraw();
+    }
+
+    /**
+     * @notice Deposit, then withdraw twice in sequence within one transaction
+     */
+    function withdrawTwice() external payable {
+        reenter = false;
+        vault.deposit{value: msg.value / 2}();
+        vault.withdraw();
+        vault.deposit{value: msg.value - msg.value / 2}();
+        vault.withdraw();
+    }
+
+    receive() external payable {
+        lockSeenDuringCall = vault.isLocked();
+        if (!reenter) return;
+        try vault.withdraw() {
+            reentryError = "";
+        } catch Error(string memory reason) {
+            reentryError = reason;
+        }
+    }
+}
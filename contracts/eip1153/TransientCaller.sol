@@ -0,0 +1,81 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.28;
+
+import "./TransientStore.sol";
+
+/**
+ * @title TransientCaller
+ * @notice Drives TransientStore through several internal calls within one transaction
+ */
+contract TransientCaller {
+    TransientStore public immutable store;
+
+    // Gas forwarded to a static call that is expected to fail: a failing TSTORE consumes all of it
+    uint256 public constant STATIC_CALL_GAS = 50_000;
+
+    // Events
+    event Observed(string step, uint256 value);
+    event StaticCallResult(string operation, bool success, uint256 value);
+
+    constructor(TransientStore _store) {
+        store = _store;
+    }
+
+    /**
+     * @notice Write through one call, read it back through another, and read the same key in this contract
+     * @return seenByStore Value TransientStore returns on the second call
+     * @return seenByCaller Value of the same key in this contract's own transient storage
+     */
+    function setThenRead(uint256 key, uint256 value) external returns (uint256 seenByStore, uint256 seenByCaller) {
+        store.setTransient(key, value);
+        seenByStore = store.getTransient(key);
+        assembly {
+            seenByCaller := tload(key)
+        }
+        emit Observed("read by store", seenByStore);
+        emit Observed("read by caller", seenByCaller);
+    }
+
+    /**
+     * @notice Set key, then overwrite it in a call that reverts, and read it back
+     * @return afterRevert Value of key after the reverted call
+     */
+    function setThenRevertedOverwrite(uint256 key, uint256 value, uint256 overwrite) external returns (uint256 afterRevert) {
+        store.setTransient(key, value);
+        try store.setThenRevert(key, overwrite) {
+            revert("TransientCaller: expected revert");
+        } catch {}
+        afterRevert = store.getTransient(key);
+        emit Observed("after reverted overwrite", afterRevert);
+    }
+
+    /**
+     * @notice Set key, then revert the whole call
+     */
+    function setThenFail(uint256 key, uint256 value) external {
+        store.setTransient(key, value);
+        revert("TransientCaller: intentional revert");
+    }
+
+    /**
+     * @notice Try TSTORE through STATICCALL
+     * @return success Whether the static call succeeded (must be false)
+     */
+    function staticWrite(uint256 key, uint256 value) external returns (bool success) {
+        (success, ) = address(store).staticcall{gas: STATIC_CALL_GAS}(abi.encodeCall(TransientStore.setTransient, (key, value)));
+        emit StaticCallResult("tstore", success, store.getTransient(key));
+    }
+
+    /**
+     * @notice Set key, then TLOAD it through STATICCALL
+     * @return success Whether the static call succeeded
+     * @return loaded Value returned by the static call
+     */
+    function setThenStaticRead(uint256 key, uint256 value) external returns (bool success, uint256 loaded) {
+        store.setTransient(key, value);
+        bytes memory result;
+        (success, result) = address(store).staticcall(abi.encodeCall(TransientStore.getTransient, (key)));
+        if (success) loaded = abi.decode(result, (uint256));
+        emit StaticCallResult("tload", success, loaded);
+    }
+}
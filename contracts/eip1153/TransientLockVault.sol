@@ -0,0 +1,48 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.28;
+
+/**
+ * @title TransientLockVault
+ * @notice ETH vault whose reentrancy lock lives in transient storage (Solidity `transient` keyword)
+ * @dev withdraw() pays before updating the balance, so without the lock it could be drained by reentrancy
+ */
+contract TransientLockVault {
+    bool private transient locked;
+
+    mapping(address => uint256) public balances;
+
+    // Events
+    event Deposited(address indexed account, uint256 amount);
+    event Withdrawn(address indexed account, uint256 amount);
+
+    modifier nonReentrant() {
+        require(!locked, "TransientLockVault: reentrant call");
+        locked = true;
+        _;
+        locked = false;
+    }
+
+    function deposit() external payable {
+        balances[msg.sender] += msg.value;
+        emit Deposited(msg.sender, msg.value);
+    }
+
+    /**
+     * @notice Withdraw the caller's whole balance
+     */
+    function withdraw() external nonReentrant {
+        uint256 amount = balances[msg.sender];
+        require(amount > 0, "TransientLockVault: nothing to withdraw");
+        (bool success, ) = msg.sender.call{value: amount}("");
+        require(success, "TransientLockVault: transfer failed");
+        balances[msg.sender] = 0;
+        emit Withdrawn(msg.sender, amount);
+    }
+
+    /**
+     * @notice Whether the lock is currently held (visible only inside the transaction)
+     */
+    function isLocked() external view returns (bool) {
+        return locked;
+    }
+}
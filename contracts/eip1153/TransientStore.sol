@@ -0,0 +1,60 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.28;
+
+/**
+ * @title TransientStore
+ * @notice Reads and writes transient storage with the tload/tstore Yul builtins (EIP-1153)
+ * @dev Each function has a persistent-storage counterpart, so tests can compare the two
+ */
+contract TransientStore {
+    // Persistent counterpart of the transient slots
+    mapping(uint256 => uint256) public persistent;
+
+    // Events
+    event TransientSet(uint256 indexed key, uint256 value);
+    event ValuesRead(uint256 indexed key, uint256 transientValue, uint256 persistentValue);
+
+    /**
+     * @notice TSTORE value at key
+     */
+    function setTransient(uint256 key, uint256 value) public {
+        assembly {
+            tstore(key, value)
+        }
+        emit TransientSet(key, value);
+    }
+
+    /**
+     * @notice TLOAD key
+     */
+    function getTransient(uint256 key) public view returns (uint256 value) {
+        assembly {
+            value := tload(key)
+        }
+    }
+
+    /**
+     * @notice Write the same value to transient and persistent storage
+     */
+    function setBoth(uint256 key, uint256 value) external {
+        persistent[key] = value;
+        setTransient(key, value);
+    }
+
+    /**
+     * @notice Emit both values of key, so a transaction can record what it saw
+     */
+    function readBoth(uint256 key) external returns (uint256 transientValue, uint256 persistentValue) {
+        transientValue = getTransient(key);
+        persistentValue = persistent[key];
+        emit ValuesRead(key, transientValue, persistentValue);
+    }
+
+    /**
+     * @notice TSTORE value at key, then revert
+     */
+    function setThenRevert(uint256 key, uint256 value) external {
+        setTransient(key, value);
+        revert("TransientStore: intentional revert");
+    }
+}
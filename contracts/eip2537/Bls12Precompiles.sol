@@ -0,0 +1,62 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.28;
+
+/**
+ * @title Bls12Precompiles
+ * @notice Calls the BLS12-381 precompiles (EIP-2537, 0x0b-0x11) with raw input
+ * @dev Failures are returned, not bubbled up: an invalid input makes the precompile
+ *      consume all gas it was given and return nothing, which tests assert on
+ */
+contract Bls12Precompiles {
+    address public constant G1ADD = address(0x0b);
+    address public constant G1MSM = address(0x0c);
+    address public constant G2ADD = address(0x0d);
+    address public constant G2MSM = address(0x0e);
+    address public constant PAIRING_CHECK = address(0x0f);
+    address public constant MAP_FP_TO_G1 = address(0x10);
+    address public constant MAP_FP2_TO_G2 = address(0x11);
+
+    // Events
+    event PrecompileCalled(address indexed precompile, bool success, uint256 outputLength);
+    event PairingChecked(address indexed caller, bool valid);
+
+    /**
+     * @notice STATICCALL a precompile with all available gas
+     */
+    function callPrecompile(address precompile, bytes calldata input) external view returns (bool success, bytes memory output) {
+        (success, output) = precompile.staticcall(input);
+    }
+
+    /**
+     * @notice STATICCALL a precompile with exactly gasLimit gas
+     * @dev Succeeds only when gasLimit covers the precompile's price
+     */
+    function callPrecompileWithGas(
+        address precompile,
+        bytes calldata input,
+        uint256 gasLimit
+    ) external view returns (bool success, bytes memory output) {
+        (success, output) = precompile.staticcall{gas: gasLimit}(input);
+    }
+
+    /**
+     * @notice STATICCALL a precompile with exactly gasLimit gas in a transaction and record the outcome
+     * @dev The receipt's gas shows how much of gasLimit the precompile consumed
+     */
+    function recordCall(address precompile, bytes calldata input, uint256 gasLimit) external returns (bool success) {
+        bytes memory output;
+        (success, output) = precompile.staticcall{gas: gasLimit}(input);
+        emit PrecompileCalled(precompile, success, output.length);
+    }
+
+    /**
+     * @notice Run PAIRING_CHECK in a transaction and record the result
+     * @dev Reverts when the precompile rejects the input, so the receipt shows the gas of a real pairing
+     */
+    function verifyPairing(bytes calldata input) external returns (bool valid) {
+        (bool success, bytes memory output) = PAIRING_CHECK.staticcall(input);
+        require(success && output.length == 32, "Bls12Precompiles: pairing check failed");
+        valid = abi.decode(output, (bool));
+        emit PairingChecked(msg.sender, valid);
+    }
+}
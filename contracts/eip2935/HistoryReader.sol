@@ -0,0 +1,61 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.28;
+
+/**
+ * @title HistoryReader
+ * @notice Reads block hashes from the EIP-2935 history storage contract next to the BLOCKHASH opcode
+ * @dev The history contract takes the block number as raw 32-byte calldata (no selector), returns the
+ *      hash for the last HISTORY_SERVE_WINDOW blocks and reverts for anything else
+ */
+contract HistoryReader {
+    address public constant HISTORY_STORAGE = 0x0000F90827F1C53a10cb7A02335B175320002935;
+    uint256 public constant HISTORY_SERVE_WINDOW = 8191;
+
+    // Events
+    event HashRead(uint256 indexed blockNumber, bool success, bytes32 historyHash, bytes32 opcodeHash);
+
+    /**
+     * @notice Hash of blockNumber from the history contract
+     * @return success False when the history contract reverted
+     * @return hash Returned hash (zero on failure)
+     */
+    function getHistoryHash(uint256 blockNumber) public view returns (bool success, bytes32 hash) {
+        bytes memory output;
+        (success, output) = HISTORY_STORAGE.staticcall(abi.encode(blockNumber));
+        if (success && output.length == 32) {
+            hash = abi.decode(output, (bytes32));
+        }
+    }
+
+    /**
+     * @notice STATICCALL the history contract with arbitrary calldata
+     */
+    function callRaw(bytes calldata input) external view returns (bool success, bytes memory output) {
+        (success, output) = HISTORY_STORAGE.staticcall(input);
+    }
+
+    /**
+     * @notice Emit the history contract's and BLOCKHASH's answer for every given block number
+     */
+    function recordHashes(uint256[] calldata blockNumbers) external {
+        for (uint256 i = 0; i < blockNumbers.length; i++) {
+            _record(blockNumbers[i]);
+        }
+    }
+
+    /**
+     * @notice Like recordHashes, with block numbers given as distances back from the current block
+     * @dev Ages are resolved at execution time, so window edges are exact whichever block the transaction lands in
+     */
+    function recordByAge(uint256[] calldata ages) external {
+        for (uint256 i = 0; i < ages.length; i++) {
+            require(ages[i] <= block.number, "HistoryReader: age beyond genesis");
+            _record(block.number - ages[i]);
+        }
+    }
+
+    function _record(uint256 blockNumber) private {
+        (bool success, bytes32 historyHash) = getHistoryHash(blockNumber);
+        emit HashRead(blockNumber, success, historyHash, blockhash(blockNumber));
+    }
+}
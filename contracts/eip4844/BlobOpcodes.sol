@@ -0,0 +1,52 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.28;
+
+/**
+ * @title BlobOpcodes
+ * @notice Exposes BLOBHASH (EIP-4844) and BLOBBASEFEE (EIP-7516) through both the Solidity
+ *         globals (blobhash(i), block.blobbasefee) and the Yul builtins
+ * @dev Blob hashes only exist inside a type 0x03 transaction, so they are reported through events
+ */
+contract BlobOpcodes {
+    // Events
+    event BlobHashRead(uint256 indexed index, bytes32 globalValue, bytes32 yulValue);
+    event BlobBaseFeeRead(uint256 indexed blockNumber, uint256 globalValue, uint256 yulValue);
+
+    /**
+     * @notice BLOBHASH at index, read with blobhash(index) and the Yul builtin
+     */
+    function getBlobHash(uint256 index) public view returns (bytes32 globalValue, bytes32 yulValue) {
+        globalValue = blobhash(index);
+        assembly {
+            yulValue := blobhash(index)
+        }
+    }
+
+    /**
+     * @notice BLOBBASEFEE, read with block.blobbasefee and the Yul builtin
+     */
+    function getBlobBaseFee() public view returns (uint256 globalValue, uint256 yulValue) {
+        globalValue = block.blobbasefee;
+        assembly {
+            yulValue := blobbasefee()
+        }
+    }
+
+    /**
+     * @notice Emit BLOBHASH for every given index of the current transaction
+     */
+    function recordBlobHashes(uint256[] calldata indexes) external {
+        for (uint256 i = 0; i < indexes.length; i++) {
+            (bytes32 globalValue, bytes32 yulValue) = getBlobHash(indexes[i]);
+            emit BlobHashRead(indexes[i], globalValue, yulValue);
+        }
+    }
+
+    /**
+     * @notice Emit BLOBBASEFEE of the block the transaction is included in
+     */
+    function recordBlobBaseFee() external {
+        (uint256 globalValue, uint256 yulValue) = getBlobBaseFee();
+        emit BlobBaseFeeRead(block.number, globalValue, yulValue);
+    }
+}
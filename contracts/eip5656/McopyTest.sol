@@ -0,0 +1,136 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.28;
+
+/**
+ * @title McopyTest
+ * @notice Copies memory with MCOPY (EIP-5656), a word-by-word MLOAD/MSTORE loop and the identity
+ *         precompile (0x04), for correctness and gas comparisons
+ * @dev Copy functions load `data` into a scratch buffer, copy `len` bytes from buffer+src to buffer+dst
+ *      in place and return the buffer, so overlapping copies can be compared with a reference memmove
+ */
+contract McopyTest {
+    uint8 public constant METHOD_MCOPY = 0;
+    uint8 public constant METHOD_LOOP = 1;
+    uint8 public constant METHOD_IDENTITY = 2;
+
+    // Scratch region for gas measurements, well above anything Solidity allocates here
+    uint256 private constant SCRATCH = 0x10000;
+
+    /**
+     * @notice In-place copy with MCOPY
+     */
+    function mcopyCopy(bytes memory data, uint256 dst, uint256 src, uint256 len) external pure returns (bytes memory) {
+        _checkBounds(data, dst, src, len);
+        assembly {
+            let buffer := add(data, 0x20)
+            mcopy(add(buffer, dst), add(buffer, src), len)
+        }
+        return data;
+    }
+
+    /**
+     * @notice In-place copy with a forward 32-byte MLOAD/MSTORE loop (pre-Cancun pattern)
+     * @dev Wrong for overlapping copies with dst > src: later words read bytes the loop already overwrote
+     */
+    function loopCopy(bytes memory data, uint256 dst, uint256 src, uint256 len) external pure returns (bytes memory) {
+        _checkBounds(data, dst, src, len);
+        assembly {
+            let buffer := add(data, 0x20)
+            _loop(add(buffer, dst), add(buffer, src), len)
+
+            function _loop(to, from, length) {
+                let i := 0
+                for {} lt(add(i, 0x20), add(length, 1)) { i := add(i, 0x20) } {
+                    mstore(add(to, i), mload(add(from, i)))
+                }
+                // Tail shorter than a word: keep the destination's trailing bytes
+                if lt(i, length) {
+                    let bits := mul(8, sub(0x20, sub(length, i)))
+                    let kept := and(mload(add(to, i)), sub(shl(bits, 1), 1))
+                    mstore(add(to, i), or(and(mload(add(from, i)), not(sub(shl(bits, 1), 1))), kept))
+                }
+            }
+        }
+        return data;
+    }
+
+    /**
+     * @notice In-place copy through the identity precompile (0x04)
+     */
+    function identityCopy(bytes memory data, uint256 dst, uint256 src, uint256 len) external view returns (bytes memory) {
+        _checkBounds(data, dst, src, len);
+        bool success;
+        assembly {
+            let buffer := add(data, 0x20)
+            success := staticcall(gas(), 0x04, add(buffer, src), len, add(buffer, dst), len)
+        }
+        require(success, "McopyTest: identity precompile failed");
+        return data;
+    }
+
+    /**
+     * @notice Gas of one copy of `len` bytes inside the scratch region
+     * @param method METHOD_MCOPY, METHOD_LOOP or METHOD_IDENTITY
+     * @param preExpand Touch the destination first, so the copy pays no memory expansion
+     * @return gasUsed Gas between two GAS readings around the copy (includes a small constant overhead)
+     * @return msizeBefore MSIZE right before the copy
+     * @return msizeAfter MSIZE right after the copy
+     */
+    function measureCopy(
+        uint8 method,
+        uint256 dstOffset,
+        uint256 srcOffset,
+        uint256 len,
+        bool preExpand
+    ) external view returns (uint256 gasUsed, uint256 msizeBefore, uint256 msizeAfter) {
+        require(method <= METHOD_IDENTITY, "McopyTest: unknown method");
+        uint256 dst = SCRATCH + dstOffset;
+        uint256 src = SCRATCH + srcOffset;
+        assembly {
+            if preExpand {
+                mstore(add(dst, len), 0)
+                mstore(add(src, len), 0)
+            }
+            msizeBefore := msize()
+            switch method
+            case 0 {
+                let start := gas()
+                mcopy(dst, src, len)
+                gasUsed := sub(start, gas())
+            }
+            case 1 {
+                let start := gas()
+                for { let i := 0 } lt(i, len) { i := add(i, 0x20) } {
+                    mstore(add(dst, i), mload(add(src, i)))
+                }
+                gasUsed := sub(start, gas())
+            }
+            default {
+                let start := gas()
+                pop(staticcall(gas(), 0x04, src, len, dst, len))
+                gasUsed := sub(start, gas())
+            }
+            msizeAfter := msize()
+        }
+    }
+
+    /**
+     * @notice Zero-length MCOPY at arbitrary (even huge) offsets
+     * @return gasUsed Gas between two GAS readings around the copy
+     * @return msizeBefore MSIZE before the copy
+     * @return msizeAfter MSIZE after the copy (must be unchanged)
+     */
+    function zeroLengthCopy(uint256 dst, uint256 src) external view returns (uint256 gasUsed, uint256 msizeBefore, uint256 msizeAfter) {
+        assembly {
+            msizeBefore := msize()
+            let start := gas()
+            mcopy(dst, src, 0)
+            gasUsed := sub(start, gas())
+            msizeAfter := msize()
+        }
+    }
+
+    function _checkBounds(bytes memory data, uint256 dst, uint256 src, uint256 len) private pure {
+        require(dst + len <= data.length && src + len <= data.length, "McopyTest: copy out of bounds");
+    }
+}
@@ -0,0 +1,33 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.28;
+
+/**
+ * @title Destructible
+ * @notice Contract that runs SELFDESTRUCT on request
+ * @dev Since EIP-6780 this only deletes the account when it happens in the transaction that created it;
+ *      otherwise the balance is sent to the beneficiary and code, storage and nonce stay.
+ */
+contract Destructible {
+    uint256 public value;
+
+    // Events
+    event Destroyed(address indexed self, address indexed beneficiary, uint256 balance);
+
+    constructor(uint256 _value) payable {
+        value = _value;
+    }
+
+    /**
+     * @notice SELFDESTRUCT, sending the whole balance to beneficiary
+     * @param beneficiary Receives the balance; if it is this contract, the balance stays (or is burned when deleted)
+     */
+    function destroy(address payable beneficiary) external {
+        emit Destroyed(address(this), beneficiary, address(this).balance);
+        selfdestruct(beneficiary);
+    }
+
+    /**
+     * @notice Receive function to accept ETH transfers
+     */
+    receive() external payable {}
+}
@@ -0,0 +1,40 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.28;
+
+import "./Destructible.sol";
+
+/**
+ * @title DestructibleFactory
+ * @notice Deploys Destructible with CREATE2, alone or destroyed again in the same transaction
+ */
+contract DestructibleFactory {
+    // Events
+    event Created(address indexed instance, bytes32 salt);
+    event CreatedAndDestroyed(address indexed instance, address indexed beneficiary);
+
+    /**
+     * @notice CREATE2 address of Destructible(value) for a salt
+     */
+    function predict(bytes32 salt, uint256 value) public view returns (address) {
+        bytes32 initCodeHash = keccak256(abi.encodePacked(type(Destructible).creationCode, abi.encode(value)));
+        return address(uint160(uint256(keccak256(abi.encodePacked(bytes1(0xff), address(this), salt, initCodeHash)))));
+    }
+
+    /**
+     * @notice Deploy Destructible(value), funded with msg.value
+     */
+    function create(bytes32 salt, uint256 value) external payable returns (address instance) {
+        instance = address(new Destructible{salt: salt, value: msg.value}(value));
+        emit Created(instance, salt);
+    }
+
+    /**
+     * @notice Deploy Destructible(value), funded with msg.value, and call destroy() in the same transaction
+     */
+    function createAndDestroy(bytes32 salt, uint256 value, address payable beneficiary) external payable returns (address instance) {
+        Destructible destructible = new Destructible{salt: salt, value: msg.value}(value);
+        destructible.destroy(beneficiary);
+        instance = address(destructible);
+        emit CreatedAndDestroyed(instance, beneficiary);
+    }
+}
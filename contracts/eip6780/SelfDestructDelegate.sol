@@ -0,0 +1,39 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.28;
+
+/**
+ * @title SelfDestructDelegate
+ * @notice EIP-7702 delegate that runs SELFDESTRUCT in the context of the delegating EOA
+ * @dev Deliberately unprotected: anyone can send the EOA's balance away. An EOA is never created
+ *      by the transaction that runs its delegate, so EIP-6780 must leave the account, its nonce,
+ *      storage and delegation marker in place.
+ */
+contract SelfDestructDelegate {
+    // Slot 0 of the delegating EOA
+    uint256 public marker;
+
+    // Events
+    event MarkerSet(address indexed account, uint256 marker);
+    event Destroyed(address indexed account, address indexed beneficiary, uint256 balance);
+
+    /**
+     * @notice Write a value to the EOA's storage, to check it survives SELFDESTRUCT
+     */
+    function setMarker(uint256 _marker) external {
+        marker = _marker;
+        emit MarkerSet(address(this), _marker);
+    }
+
+    /**
+     * @notice SELFDESTRUCT in the EOA's context, sending its balance to beneficiary
+     */
+    function destroy(address payable beneficiary) external {
+        emit Destroyed(address(this), beneficiary, address(this).balance);
+        selfdestruct(beneficiary);
+    }
+
+    /**
+     * @notice Receive function to accept ETH transfers
+     */
+    receive() external payable {}
+}
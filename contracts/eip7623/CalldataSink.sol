@@ -0,0 +1,20 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.28;
+
+/**
+ * @title CalldataSink
+ * @notice Accepts any calldata and does the same fixed amount of work for it
+ * @dev The fallback only reads CALLDATASIZE and emits one event, so its execution gas does not
+ *      depend on the calldata. Used directly and as the delegate of an EIP-7702 EOA.
+ */
+contract CalldataSink {
+    // Events
+    event CalldataReceived(address indexed sender, uint256 size);
+
+    /**
+     * @notice Log the calldata size and ignore the contents
+     */
+    fallback() external payable {
+        emit CalldataReceived(msg.sender, msg.data.length);
+    }
+}
@@ -0,0 +1,33 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.28;
+
+import "@account-abstraction/contracts/core/BasePaymaster.sol";
+import "@account-abstraction/contracts/core/Helpers.sol";
+
+/**
+ * @title AllowlistPaymaster
+ * @notice ERC-4337 paymaster that pays for UserOperations of senders its owner has allowlisted
+ */
+contract AllowlistPaymaster is BasePaymaster {
+    mapping(address => bool) public sponsored;
+
+    event SponsorshipSet(address indexed account, bool sponsored);
+
+    constructor(IEntryPoint anEntryPoint) BasePaymaster(anEntryPoint) {}
+
+    /**
+     * @notice Allow or stop paying for an account's UserOperations
+     */
+    function setSponsored(address account, bool isSponsored) external onlyOwner {
+        sponsored[account] = isSponsored;
+        emit SponsorshipSet(account, isSponsored);
+    }
+
+    function _validatePaymasterUserOp(
+        PackedUserOperation calldata userOp,
+        bytes32,
+        uint256
+    ) internal view override returns (bytes memory context, uint256 validationData) {
+        return ("", sponsored[userOp.sender] ? SIG_VALIDATION_SUCCESS : SIG_VALIDATION_FAILED);
+    }
+}
@@ -0,0 +1,72 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.28;
+
+/**
+ * @title BatchExecutor
+ * @notice General-purpose call-batching delegate for EIP-7702 accounts
+ * @dev Meant to run as the code of a delegated EOA: only the EOA itself (msg.sender == address(this))
+ *      may execute, so batches are sent as transactions from the EOA to its own address.
+ */
+contract BatchExecutor {
+    struct Call {
+        address target;
+        uint256 value;
+        bytes data;
+    }
+
+    // Events
+    event CallExecuted(uint256 indexed index, address indexed target, uint256 value);
+    event CallFailed(uint256 indexed index, address indexed target, bytes reason);
+    event BatchExecuted(uint256 callCount, uint256 failedCount);
+
+    /// @notice An inner call of an all-or-nothing batch reverted; the whole batch is rolled back
+    error CallReverted(uint256 index, bytes reason);
+
+    modifier onlySelf() {
+        require(msg.sender == address(this), "BatchExecutor: caller is not the account");
+        _;
+    }
+
+    /**
+     * @notice Execute all calls, reverting the whole batch if any call fails
+     * @param calls Calls to execute in order
+     */
+    function executeBatch(Call[] calldata calls) external payable onlySelf {
+        for (uint256 i = 0; i < calls.length; i++) {
+            (bool success, bytes memory reason) = _call(calls[i]);
+            if (!success) revert CallReverted(i, reason);
+            emit CallExecuted(i, calls[i].target, calls[i].value);
+        }
+        emit BatchExecuted(calls.length, 0);
+    }
+
+    /**
+     * @notice Execute all calls, keeping the effects of successful calls when others fail
+     * @param calls Calls to execute in order
+     * @return successes Whether each call succeeded
+     */
+    function tryExecuteBatch(Call[] calldata calls) external payable onlySelf returns (bool[] memory successes) {
+        successes = new bool[](calls.length);
+        uint256 failedCount = 0;
+        for (uint256 i = 0; i < calls.length; i++) {
+            (bool success, bytes memory reason) = _call(calls[i]);
+            successes[i] = success;
+            if (success) {
+                emit CallExecuted(i, calls[i].target, calls[i].value);
+            } else {
+                failedCount++;
+                emit CallFailed(i, calls[i].target, reason);
+            }
+        }
+        emit BatchExecuted(calls.length, failedCount);
+    }
+
+    function _call(Call calldata call) private returns (bool, bytes memory) {
+        return call.target.call{value: call.value}(call.data);
+    }
+
+    /**
+     * @notice Receive function to accept ETH transfers / empty calldata calls
+     */
+    receive() external payable {}
+}
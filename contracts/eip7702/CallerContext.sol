@@ -0,0 +1,63 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.28;
+
+interface IOriginGuard {
+    function requireOrigin() external;
+    function requireNoCode() external;
+}
+
+/**
+ * @title CallerContext
+ * @notice Delegate that reports address(this), msg.sender, tx.origin and CALLER as seen by delegated code
+ */
+contract CallerContext {
+    event Context(address indexed self, address indexed sender, address origin, address callerOpcode);
+
+    /**
+     * @notice Current call context
+     * @return self address(this)
+     * @return sender msg.sender
+     * @return origin tx.origin
+     * @return callerOpcode Result of the CALLER opcode
+     */
+    function context() public view returns (address self, address sender, address origin, address callerOpcode) {
+        assembly {
+            callerOpcode := caller()
+        }
+        return (address(this), msg.sender, tx.origin, callerOpcode);
+    }
+
+    /**
+     * @notice Emit the current call context
+     */
+    function recordContext() public {
+        (address self, address sender, address origin, address callerOpcode) = context();
+        emit Context(self, sender, origin, callerOpcode);
+    }
+
+    /**
+     * @notice Call recordContext() on this account through an external call to itself
+     */
+    function recordSelfCall() external {
+        this.recordContext();
+    }
+
+    /**
+     * @notice Call OriginGuard.requireOrigin() from this account
+     */
+    function callRequireOrigin(IOriginGuard guard) external {
+        guard.requireOrigin();
+    }
+
+    /**
+     * @notice Call OriginGuard.requireNoCode() from this account
+     */
+    function callRequireNoCode(IOriginGuard guard) external {
+        guard.requireNoCode();
+    }
+
+    /**
+     * @notice Receive function to accept ETH transfers / empty calldata calls
+     */
+    receive() external payable {}
+}
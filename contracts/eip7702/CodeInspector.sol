@@ -0,0 +1,37 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.28;
+
+/**
+ * @title CodeInspector
+ * @notice Reads another account's code on-chain, to check how contracts see a delegated EOA
+ * @dev EIP-7702: EXTCODESIZE / EXTCODEHASH / EXTCODECOPY of a delegated EOA operate on the
+ *      23-byte delegation indicator (0xef0100 || address), not on the delegate's code
+ */
+contract CodeInspector {
+    /**
+     * @notice Inspect an account's code
+     * @param account Account to inspect
+     * @return size EXTCODESIZE(account)
+     * @return hash EXTCODEHASH(account)
+     * @return code EXTCODECOPY(account) of the whole code
+     */
+    function inspect(address account) external view returns (uint256 size, bytes32 hash, bytes memory code) {
+        size = account.code.length;
+        hash = account.codehash;
+        code = account.code;
+    }
+
+    /**
+     * @notice Compare the code being executed with the code stored at address(this)
+     * @dev Called through a delegated EOA, CODESIZE is this contract's size while
+     *      EXTCODESIZE(address(this)) is the size of the EOA's delegation indicator
+     * @return executingCodeSize CODESIZE
+     * @return accountCodeSize EXTCODESIZE(address(this))
+     */
+    function selfInspect() external view returns (uint256 executingCodeSize, uint256 accountCodeSize) {
+        assembly {
+            executingCodeSize := codesize()
+        }
+        accountCodeSize = address(this).code.length;
+    }
+}
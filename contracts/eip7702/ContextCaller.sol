@@ -0,0 +1,19 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.28;
+
+interface ICallerContext {
+    function recordContext() external;
+}
+
+/**
+ * @title ContextCaller
+ * @notice Plain contract that calls into a delegated EOA, so the EOA's code sees a contract as msg.sender
+ */
+contract ContextCaller {
+    /**
+     * @notice Call recordContext() on an account delegated to CallerContext
+     */
+    function callRecordContext(address account) external {
+        ICallerContext(account).recordContext();
+    }
+}
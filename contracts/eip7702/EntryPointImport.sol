@@ -0,0 +1,5 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.28;
+
+// Compiles the ERC-4337 v0.8 EntryPoint so tests can deploy it to the local network
+import "@account-abstraction/contracts/core/EntryPoint.sol";
@@ -0,0 +1,71 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.28;
+
+/**
+ * @title HardenedWallet
+ * @notice Delegate that blocks the attacks UnprotectedWallet is open to
+ * @dev Initialization only from the EOA itself (msg.sender == address(this)), which the EOA can do in
+ *      the same type 0x04 transaction that delegates to this contract; state changes and withdrawals
+ *      only from the EOA or its owner; plain ETH receive and no fallback.
+ */
+contract HardenedWallet {
+    address public owner;
+    uint256 private value;
+
+    event Initialized(address indexed owner);
+    event ValueSet(address indexed setter, uint256 newValue);
+    event Withdrawn(address indexed to, uint256 amount);
+
+    modifier onlySelf() {
+        require(msg.sender == address(this), "HardenedWallet: caller is not the account");
+        _;
+    }
+
+    modifier onlyAuthorized() {
+        require(
+            msg.sender == address(this) || (owner != address(0) && msg.sender == owner),
+            "HardenedWallet: caller is not authorized"
+        );
+        _;
+    }
+
+    /**
+     * @notice Set the wallet owner, once, from the EOA itself
+     */
+    function initialize(address _owner) external onlySelf {
+        require(owner == address(0), "HardenedWallet: already initialized");
+        owner = _owner;
+        emit Initialized(_owner);
+    }
+
+    /**
+     * @notice Set storage value
+     * @param _value New value to set
+     */
+    function setValue(uint256 _value) external onlyAuthorized {
+        value = _value;
+        emit ValueSet(msg.sender, _value);
+    }
+
+    /**
+     * @notice Get current storage value
+     * @return Current value
+     */
+    function getValue() external view returns (uint256) {
+        return value;
+    }
+
+    /**
+     * @notice Withdraw ETH from the account
+     */
+    function withdraw(address payable to, uint256 amount) external onlyAuthorized {
+        to.transfer(amount);
+        emit Withdrawn(to, amount);
+    }
+
+    /**
+     * @notice Receive function to accept ETH transfers / empty calldata calls
+     * @dev No fallback: unknown calldata reverts instead of being interpreted
+     */
+    receive() external payable {}
+}
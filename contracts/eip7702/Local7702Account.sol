@@ -0,0 +1,58 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.28;
+
+import "@openzeppelin/contracts/utils/cryptography/ECDSA.sol";
+import "@account-abstraction/contracts/core/BaseAccount.sol";
+import "@account-abstraction/contracts/core/Helpers.sol";
+
+/**
+ * @title Local7702Account
+ * @notice ERC-4337 account implementation for EIP-7702 delegated EOAs
+ * @dev Same logic as Simple7702Account from @account-abstraction/contracts v0.8, but the EntryPoint is
+ *      a constructor argument instead of the canonical address, so a locally deployed EntryPoint works.
+ *      The immutable is part of the runtime code, so every EOA delegating here sees the same EntryPoint.
+ */
+contract Local7702Account is BaseAccount {
+    IEntryPoint private immutable _entryPoint;
+
+    constructor(IEntryPoint anEntryPoint) {
+        _entryPoint = anEntryPoint;
+    }
+
+    /**
+     * @notice EntryPoint trusted by this account
+     */
+    function entryPoint() public view override returns (IEntryPoint) {
+        return _entryPoint;
+    }
+
+    /**
+     * @notice UserOperations must be signed by the EOA's own key
+     */
+    function _validateSignature(
+        PackedUserOperation calldata userOp,
+        bytes32 userOpHash
+    ) internal view override returns (uint256 validationData) {
+        (address recovered, ECDSA.RecoverError error, ) = ECDSA.tryRecover(userOpHash, userOp.signature);
+        return error == ECDSA.RecoverError.NoError && recovered == address(this)
+            ? SIG_VALIDATION_SUCCESS
+            : SIG_VALIDATION_FAILED;
+    }
+
+    /**
+     * @notice execute / executeBatch are open to the EOA itself and the EntryPoint
+     */
+    function _requireForExecute() internal view override {
+        require(msg.sender == address(this) || msg.sender == address(entryPoint()), "not from self or EntryPoint");
+    }
+
+    /**
+     * @notice Receive function to accept ETH transfers / empty calldata calls
+     */
+    receive() external payable {}
+
+    /**
+     * @notice Fallback function to handle unknown / empty function calls, to mimic an EOA
+     */
+    fallback() external payable {}
+}
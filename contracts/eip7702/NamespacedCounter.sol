@@ -0,0 +1,56 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.28;
+
+/**
+ * @title NamespacedCounter
+ * @notice Delegate that keeps its state in an ERC-7201 namespaced storage slot
+ * @dev An EOA's storage outlives its delegation, so a delegate that uses slot 0 reads and
+ *      overwrites whatever the previous delegate left there. A namespaced layout avoids that.
+ */
+contract NamespacedCounter {
+    /// @custom:storage-location erc7201:eiptesting.storage.NamespacedCounter
+    struct CounterStorage {
+        uint256 value;
+    }
+
+    // keccak256(abi.encode(uint256(keccak256("eiptesting.storage.NamespacedCounter")) - 1)) & ~bytes32(uint256(0xff))
+    bytes32 public constant STORAGE_LOCATION =
+        keccak256(abi.encode(uint256(keccak256("eiptesting.storage.NamespacedCounter")) - 1)) & ~bytes32(uint256(0xff));
+
+    // Events
+    event ValueSet(address indexed setter, uint256 newValue);
+
+    function _storage() private pure returns (CounterStorage storage $) {
+        bytes32 location = STORAGE_LOCATION;
+        assembly {
+            $.slot := location
+        }
+    }
+
+    /**
+     * @notice Set storage value
+     * @param _value New value to set
+     */
+    function setValue(uint256 _value) external {
+        _storage().value = _value;
+        emit ValueSet(msg.sender, _value);
+    }
+
+    /**
+     * @notice Get current storage value
+     * @return Current value
+     */
+    function getValue() external view returns (uint256) {
+        return _storage().value;
+    }
+
+    /**
+     * @notice Receive function to accept ETH transfers / empty calldata calls
+     */
+    receive() external payable {}
+
+    /**
+     * @notice Fallback function to handle unknown / empty function calls
+     */
+    fallback() external payable {}
+}
@@ -0,0 +1,26 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.28;
+
+/**
+ * @title OriginGuard
+ * @notice The two common "caller is an EOA" checks, to test how they treat delegated EOAs
+ */
+contract OriginGuard {
+    event Passed(address indexed sender, address origin);
+
+    /**
+     * @notice Revert unless msg.sender == tx.origin
+     */
+    function requireOrigin() external {
+        require(msg.sender == tx.origin, "OriginGuard: caller is not tx.origin");
+        emit Passed(msg.sender, tx.origin);
+    }
+
+    /**
+     * @notice Revert unless msg.sender has no code
+     */
+    function requireNoCode() external {
+        require(msg.sender.code.length == 0, "OriginGuard: caller has code");
+        emit Passed(msg.sender, tx.origin);
+    }
+}
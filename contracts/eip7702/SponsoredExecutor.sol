@@ -0,0 +1,100 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.28;
+
+/**
+ * @title SponsoredExecutor
+ * @notice Delegate that lets a relayer execute a call on behalf of the EOA, authenticated by an
+ *         EIP-712 signed intent from the EOA with nonce and deadline replay protection
+ * @dev The domain is bound to block.chainid and address(this), i.e. the delegated EOA, so an intent
+ *      cannot be replayed on another chain or through another account delegated to this contract.
+ */
+contract SponsoredExecutor {
+    /// @custom:storage-location erc7201:eiptesting.storage.SponsoredExecutor
+    struct ExecutorStorage {
+        uint256 nonce;
+    }
+
+    // keccak256(abi.encode(uint256(keccak256("eiptesting.storage.SponsoredExecutor")) - 1)) & ~bytes32(uint256(0xff))
+    bytes32 private constant STORAGE_LOCATION =
+        keccak256(abi.encode(uint256(keccak256("eiptesting.storage.SponsoredExecutor")) - 1)) & ~bytes32(uint256(0xff));
+
+    bytes32 private constant DOMAIN_TYPEHASH =
+        keccak256("EIP712Domain(string name,string version,uint256 chainId,address verifyingContract)");
+    bytes32 public constant EXECUTE_TYPEHASH =
+        keccak256("Execute(address target,uint256 value,bytes data,uint256 nonce,uint256 deadline)");
+
+    // Upper bound for s (secp256k1n / 2), rejects malleable signatures
+    uint256 private constant MAX_S = 0x7FFFFFFFFFFFFFFFFFFFFFFFFFFFFFFF5D576E7357A4501DDFE92F46681B20A0;
+
+    // Events
+    event Executed(address indexed relayer, address indexed target, uint256 value, uint256 nonce);
+
+    function _storage() private pure returns (ExecutorStorage storage $) {
+        bytes32 location = STORAGE_LOCATION;
+        assembly {
+            $.slot := location
+        }
+    }
+
+    /**
+     * @notice Next intent nonce of this account
+     */
+    function nonce() external view returns (uint256) {
+        return _storage().nonce;
+    }
+
+    /**
+     * @notice EIP-712 domain separator of this account on the current chain
+     */
+    function domainSeparator() public view returns (bytes32) {
+        return keccak256(
+            abi.encode(DOMAIN_TYPEHASH, keccak256("SponsoredExecutor"), keccak256("1"), block.chainid, address(this))
+        );
+    }
+
+    /**
+     * @notice Execute a call signed by this account; anyone may relay it and pay the gas
+     * @param target Call target
+     * @param value ETH sent from this account
+     * @param data Call data
+     * @param deadline Last block timestamp at which the intent is valid
+     * @param signature 65-byte (r, s, v) signature of the EIP-712 Execute intent
+     */
+    function execute(
+        address target,
+        uint256 value,
+        bytes calldata data,
+        uint256 deadline,
+        bytes calldata signature
+    ) external payable returns (bytes memory) {
+        require(block.timestamp <= deadline, "SponsoredExecutor: intent expired");
+
+        ExecutorStorage storage $ = _storage();
+        uint256 currentNonce = $.nonce;
+        bytes32 structHash = keccak256(abi.encode(EXECUTE_TYPEHASH, target, value, keccak256(data), currentNonce, deadline));
+        bytes32 digest = keccak256(abi.encodePacked("\x19\x01", domainSeparator(), structHash));
+        require(_recover(digest, signature) == address(this), "SponsoredExecutor: invalid signature");
+
+        // Consumed before the call, so the call cannot re-enter with the same intent
+        $.nonce = currentNonce + 1;
+
+        (bool success, bytes memory result) = target.call{value: value}(data);
+        require(success, "SponsoredExecutor: call failed");
+        emit Executed(msg.sender, target, value, currentNonce);
+        return result;
+    }
+
+    function _recover(bytes32 digest, bytes calldata signature) private pure returns (address) {
+        require(signature.length == 65, "SponsoredExecutor: invalid signature length");
+        bytes32 r = bytes32(signature[0:32]);
+        bytes32 s = bytes32(signature[32:64]);
+        uint8 v = uint8(signature[64]);
+        if (uint256(s) > MAX_S || (v != 27 && v != 28)) return address(0);
+        return ecrecover(digest, v, r, s);
+    }
+
+    /**
+     * @notice Receive function to accept ETH transfers / empty calldata calls
+     */
+    receive() external payable {}
+}
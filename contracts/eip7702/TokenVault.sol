@@ -0,0 +1,25 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.28;
+
+interface ITestToken {
+    function transferFrom(address from, address to, uint256 amount) external returns (bool);
+}
+
+/**
+ * @title TokenVault
+ * @notice Pulls tokens with transferFrom, so a deposit needs a prior approve (approve + deposit batching tests)
+ */
+contract TokenVault {
+    mapping(address => mapping(address => uint256)) public deposits;
+
+    event Deposited(address indexed account, address indexed token, uint256 amount);
+
+    /**
+     * @notice Deposit tokens previously approved to this vault
+     */
+    function deposit(address token, uint256 amount) external {
+        require(ITestToken(token).transferFrom(msg.sender, address(this), amount), "TokenVault: transfer failed");
+        deposits[msg.sender][token] += amount;
+        emit Deposited(msg.sender, token, amount);
+    }
+}
@@ -0,0 +1,51 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.28;
+
+/**
+ * @title UnprotectedWallet
+ * @notice Deliberately insecure delegate, used to demonstrate attacks on delegated EOAs
+ * @dev DO NOT USE. initialize() can be front-run by anyone, and the fallback pays out to
+ *      whatever (recipient, amount) the calldata encodes. See HardenedWallet for the fixed version.
+ */
+contract UnprotectedWallet {
+    address public owner;
+
+    event Initialized(address indexed owner);
+    event Withdrawn(address indexed to, uint256 amount);
+
+    /**
+     * @notice Set the wallet owner, once
+     * @dev Vulnerable: whoever calls first after delegation becomes the owner
+     */
+    function initialize(address _owner) external {
+        require(owner == address(0), "UnprotectedWallet: already initialized");
+        owner = _owner;
+        emit Initialized(_owner);
+    }
+
+    /**
+     * @notice Withdraw ETH from the account
+     */
+    function withdraw(address payable to, uint256 amount) external {
+        require(msg.sender == owner, "UnprotectedWallet: caller is not the owner");
+        to.transfer(amount);
+        emit Withdrawn(to, amount);
+    }
+
+    /**
+     * @notice Receive function to accept ETH transfers / empty calldata calls
+     */
+    receive() external payable {}
+
+    /**
+     * @notice Payout forwarder: abi.encode(recipient, amount) calldata pays recipient
+     * @dev Vulnerable: no check on who sends the instruction
+     */
+    fallback() external payable {
+        if (msg.data.length == 64) {
+            (address recipient, uint256 amount) = abi.decode(msg.data, (address, uint256));
+            payable(recipient).transfer(amount);
+            emit Withdrawn(recipient, amount);
+        }
+    }
+}
@@ -2,5 +2,9 @@ declare namespace NodeJS {
   interface ProcessEnv {
     PRIVATE_KEY: string;
     RPC_URL: string;
+    HARDHAT_HARDFORK?: string;
+    EIP_REPORT_DIR?: string;
+    EIP_LOG_LEVEL?: string;
+    EIP_LOG_FILE?: string;
   }
 }
@@ -1,6 +1,11 @@
+import path from "path";
 import { HardhatUserConfig } from "hardhat/config";
+import type { SolcUserConfig } from "hardhat/types";
 import "@nomicfoundation/hardhat-toolbox";
 import dotenv from "dotenv";
+import "./tasks/probe";
+import "./tasks/matrix";
+import { defaultLocalHardfork, suiteCompilerOverrides, suiteEvmVersion } from "./utils/suites";
 
 dotenv.config();
 
@@ -19,21 +24,35 @@ const accounts = Array.from(
   ])
 );
 
+// Base compiler; contracts of suites that need a later hardfork get its evmVersion (see utils/suites)
+const compiler: SolcUserConfig = {
+  version: "0.8.28",
+  settings: {
+    optimizer: {
+      enabled: true,
+      runs: 200,
+    },
+    viaIR: true,
+    evmVersion: "cancun",
+  },
+};
+
 const config: HardhatUserConfig = {
   solidity: {
-    compilers: [
-      {
+    compilers: [compiler],
+    overrides: {
+      ...suiteCompilerOverrides(__dirname, compiler),
+      // Reads MSIZE and times opcodes with GAS, which the Yul optimizer does not allow / would distort
+      "contracts/eip5656/McopyTest.sol": {
         version: "0.8.28",
         settings: {
           optimizer: {
-            enabled: true,
-            runs: 200,
+            enabled: false,
           },
-          viaIR: true,
-          evmVersion: "cancun",
+          evmVersion: suiteEvmVersion("eip5656"),
         },
       },
-    ],
+    },
   },
   networks: {
     myNet: {
@@ -44,6 +63,9 @@ const config: HardhatUserConfig = {
     },
     hardhat: {
       chainId: 20986,
+      // Newest hardfork any suite needs, unless pinned (set per entry by the matrix task);
+      // suites that need a later fork than the pinned one skip themselves
+      hardfork: process.env.HARDHAT_HARDFORK ?? defaultLocalHardfork(),
       gas: "auto",
       gasPrice: "auto",
       mining: {
@@ -51,6 +73,12 @@ const config: HardhatUserConfig = {
         interval: 0,
       },
     },
+    // `hardhat node` (started by the matrix task for node@<hardfork> entries); its default
+    // accounts are signed locally so authorizations can be created
+    localhost: {
+      url: "http://127.0.0.1:8545",
+      accounts: { mnemonic: "test test test test test test test test test test test junk" },
+    },
     devnet: {
       url: "https://devnetstats.hashlabs.apothem.network/devnet",
       accounts,
@@ -76,6 +104,8 @@ const config: HardhatUserConfig = {
   },
   mocha: {
     timeout: 100000,
+    // Spec output plus Markdown/JSON/JUnit reports in reports/<network>/ (see utils/report)
+    reporter: path.join(__dirname, "utils/report/reporter.ts"),
   },
 };
 
@@ -0,0 +1,47 @@
+import fs from "fs";
+import path from "path";
+import { task } from "hardhat/config";
+import { parseMatrixEntries, renderMatrixComparison, runMatrix, summarizeRun } from "../utils/matrix";
+
+/**
+ * Run the selected suites against several networks and compare the results
+ *
+ * Usage:
+ *   npx hardhat matrix --networks hardhat,hardhat@cancun --suites test/eip7702.test.ts
+ *   npx hardhat matrix --networks node@prague,devnet,apothem
+ *
+ * Entries run one after another; "node@<fork>" starts a local `hardhat node` on port 8545.
+ */
+task("matrix", "Run test suites against several networks and write a comparison table")
+  .addParam("networks", "Comma-separated entries: <network> or hardhat@<hardfork> / node@<hardfork>")
+  .addOptionalParam("suites", "Comma-separated test files (default: all tests)", "")
+  .addOptionalParam("out", "Output directory", path.join("reports", "matrix"))
+  .setAction(async ({ networks, suites, out }: { networks: string; suites: string; out: string }, hre) => {
+    const entries = parseMatrixEntries(networks);
+    const outputDir = path.resolve(out);
+
+    const runs = await runMatrix({
+      entries,
+      suites: suites
+        .split(",")
+        .map((suite) => suite.trim())
+        .filter(Boolean),
+      outputDir,
+      configFile: hre.config.paths.configFile,
+    });
+
+    const comparison = renderMatrixComparison(runs);
+    fs.mkdirSync(outputDir, { recursive: true });
+    fs.writeFileSync(path.join(outputDir, "comparison.md"), comparison);
+    fs.writeFileSync(path.join(outputDir, "comparison.json"), JSON.stringify(runs, null, 2));
+
+    console.log("\n=== Matrix summary ===");
+    for (const run of runs) {
+      const { passed, failed, pending } = summarizeRun(run);
+      console.log(
+        `  ${run.entry.label}: ${passed} passed, ${failed} failed, ${pending} skipped${run.error ? ` (${run.error})` : ""}`
+      );
+    }
+    console.log(`\n${comparison}`);
+    console.log(`📄 Comparison written to ${path.relative(process.cwd(), path.join(outputDir, "comparison.md"))}`);
+  });
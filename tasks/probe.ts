@@ -0,0 +1,28 @@
+import { task } from "hardhat/config";
+import { formatCapabilityMatrix, probeNetworkCapabilities } from "../utils/capabilities";
+
+/**
+ * Probe the selected network for EIP support
+ *
+ * Usage:
+ *   npx hardhat probe --network devnet
+ *   npx hardhat probe --network apothem --read-only   (no transactions, no funds spent)
+ *   npx hardhat probe --json                          (in-process Hardhat network)
+ */
+task("probe", "Probe the network for supported transaction types, opcodes, precompiles and system contracts")
+  .addFlag("json", "Print the raw results as JSON instead of the Markdown matrix")
+  .addFlag("readOnly", "Skip the transaction probes, which fund a throwaway wallet from the first account")
+  .setAction(async ({ json, readOnly }: { json: boolean; readOnly: boolean }, hre) => {
+    const signers = readOnly ? [] : await hre.ethers.getSigners();
+    const capabilities = await probeNetworkCapabilities({
+      provider: hre.ethers.provider,
+      network: hre.network.name,
+      funder: signers[0],
+    });
+
+    if (json) {
+      console.log(JSON.stringify(capabilities, (_key, value) => (typeof value === "bigint" ? value.toString() : value), 2));
+    } else {
+      console.log(formatCapabilityMatrix(capabilities));
+    }
+  });
@@ -0,0 +1,234 @@
+import { expect } from "chai";
+import { ethers, network as hardhatNetwork } from "hardhat";
+import { TransientStore, TransientCaller, TransientLockVault, ReentrancyAttacker } from "../typechain-types";
+import type { ContractTransactionReceipt, ContractTransactionResponse, Signer } from "ethers";
+import { parseEther } from "ethers";
+import { configuredHardfork, skipUnlessSuiteSupported } from "../utils/suites";
+import { logger } from "../utils/logger";
+
+describe("EIP-1153 Complete Test Suite", function () {
+  let transientStore: TransientStore;
+  let transientCaller: TransientCaller;
+  let owner: Signer;
+  let accountA: Signer;
+
+  let transientStoreAddress: string;
+  let transientCallerAddress: string;
+  let ownerAddress: string;
+  let accountAAddress: string;
+
+  let chainId: bigint;
+
+  before(async function () {
+    const signers = await ethers.getSigners();
+    if (signers.length < 2) {
+      throw new Error(
+        [
+          "Test initialization failed: At least 2 accounts required (owner/accountA).",
+          `Currently ethers.getSigners() only returned ${signers.length}.`,
+          "Configure at least 2 private keys (PRIVATE_KEYS=key1,key2), see example.env in project root directory.",
+        ].join("\n")
+      );
+    }
+
+    // Skip the whole suite with one reason on nodes without TSTORE/TLOAD
+    await skipUnlessSuiteSupported(this, { provider: ethers.provider, network: hardhatNetwork.name, hardfork: configuredHardfork(hardhatNetwork.config), funder: signers[0] }, "eip1153");
+
+    [owner, accountA] = signers;
+    ownerAddress = await owner.getAddress();
+    accountAAddress = await accountA.getAddress();
+
+    const network = await ethers.provider.getNetwork();
+    chainId = network.chainId;
+
+    logger.environment({
+      network: hardhatNetwork.name,
+      chainId: chainId.toString(),
+      accounts: {
+        Owner: ownerAddress,
+        "Account A": accountAAddress,
+      },
+    });
+
+    // Deploy test contracts
+    const TransientStoreFactory = await ethers.getContractFactory("TransientStore");
+    transientStore = await TransientStoreFactory.deploy();
+    await transientStore.waitForDeployment();
+    transientStoreAddress = await transientStore.getAddress();
+
+    const TransientCallerFactory = await ethers.getContractFactory("TransientCaller");
+    transientCaller = await TransientCallerFactory.deploy(transientStoreAddress);
+    await transientCaller.waitForDeployment();
+    transientCallerAddress = await transientCaller.getAddress();
+
+    logger.section("Contract Deployment Complete");
+    logger.detail("TransientStore", transientStoreAddress);
+    logger.detail("TransientCaller", transientCallerAddress);
+  });
+
+  async function confirm(label: string, pending: Promise<ContractTransactionResponse>): Promise<ContractTransactionReceipt> {
+    const receipt = await (await pending).wait();
+    if (!receipt) throw new Error("No receipt");
+    logger.receipt(label, receipt);
+    return receipt;
+  }
+
+  // Values of one event type emitted by a receipt, in order
+  function eventArgs(receipt: ContractTransactionReceipt, contract: TransientStore | TransientCaller, name: string) {
+    return receipt.logs
+      .map((log) => contract.interface.parseLog(log))
+      .filter((event) => event?.name === name)
+      .map((event) => event!.args);
+  }
+
+  describe("A. Transaction Scope", function () {
+    it("A1. Test Values Clear Between Transactions", async function () {
+      logger.section("Test Purpose");
+      logger.info("Verify a TSTORE value is gone in the next transaction while the SSTORE value persists");
+
+      const key = 1n;
+      await confirm("setBoth(1, 42)", transientStore.setBoth(key, 42));
+
+      const receipt = await confirm("readBoth(1) in a new transaction", transientStore.readBoth(key));
+      const [read] = eventArgs(receipt, transientStore, "ValuesRead");
+      logger.note("Transient / persistent value in the next transaction", `${read.transientValue} / ${read.persistentValue}`);
+      expect(read.transientValue).to.equal(0);
+      expect(read.persistentValue).to.equal(42);
+
+      // eth_call runs as its own transaction too
+      expect(await transientStore.getTransient(key)).to.equal(0);
+      logger.info("✓ Transaction scope test passed");
+    });
+
+    it("A2. Test Values Stay Visible Across Internal Calls", async function () {
+      logger.section("Test Purpose");
+      logger.info("Verify a value TSTOREd in one call is TLOADed in a later call of the same transaction, only by the same contract");
+
+      const receipt = await confirm("TransientCaller.setThenRead(2, 7)", transientCaller.setThenRead(2, 7));
+      const observed = eventArgs(receipt, transientCaller, "Observed").map((args) => [args.step, args.value]);
+      observed.forEach(([step, value]) => logger.note(`Value ${step}`, value));
+
+      expect(observed).to.deep.equal([
+        ["read by store", 7n],
+        ["read by caller", 0n],
+      ]);
+      expect(await transientStore.getTransient(2)).to.equal(0);
+      logger.info("✓ Cross-call visibility test passed");
+    });
+  });
+
+  describe("B. Revert Rollback", function () {
+    it("B1. Test Reverted Call Rolls Back Its TSTORE", async function () {
+      logger.section("Test Purpose");
+      logger.info("Verify a TSTORE inside a reverted call is undone, restoring the value set before the call");
+
+      const afterRevert = await transientCaller.setThenRevertedOverwrite.staticCall(3, 11, 99);
+      logger.note("Value after reverted overwrite (static call)", afterRevert);
+      expect(afterRevert).to.equal(11);
+
+      const receipt = await confirm("setThenRevertedOverwrite(3, 11, 99)", transientCaller.setThenRevertedOverwrite(3, 11, 99));
+      const [observed] = eventArgs(receipt, transientCaller, "Observed");
+      expect(observed.value).to.equal(11);
+      // The store's TransientSet(3, 99) event was rolled back with the call
+      const sets = eventArgs(receipt, transientStore, "TransientSet").map((args) => args.value);
+      expect(sets).to.deep.equal([11n]);
+      logger.info("✓ Sub-call rollback test passed");
+    });
+
+    it("B2. Test Reverted Transaction Leaves No Transient Value", async function () {
+      logger.section("Test Purpose");
+      logger.info("Verify a reverted transaction neither keeps its TSTORE nor affects the next transaction");
+
+      try {
+        await (await transientCaller.setThenFail(4, 5, { gasLimit: 200_000n })).wait();
+        expect.fail("setThenFail should revert");
+      } catch (error: any) {
+        logger.note("setThenFail(4, 5)", `reverted: ${error.shortMessage ?? error.message.split("\n")[0]}`);
+        expect(error.message).to.contain("TransientCaller: intentional revert");
+      }
+
+      const receipt = await confirm("readBoth(4) afterwards", transientStore.readBoth(4));
+      const [read] = eventArgs(receipt, transientStore, "ValuesRead");
+      expect(read.transientValue).to.equal(0);
+      logger.info("✓ Transaction rollback test passed");
+    });
+  });
+
+  describe("C. Reentrancy Lock", function () {
+    let vault: TransientLockVault;
+    let attacker: ReentrancyAttacker;
+
+    before(async function () {
+      const VaultFactory = await ethers.getContractFactory("TransientLockVault");
+      vault = await VaultFactory.deploy();
+      await vault.waitForDeployment();
+
+      const AttackerFactory = await ethers.getContractFactory("ReentrancyAttacker");
+      attacker = await AttackerFactory.deploy(await vault.getAddress());
+      await attacker.waitForDeployment();
+
+      // Other depositors' funds are what a reentrancy attack would steal
+      await (await vault.connect(accountA).deposit({ value: parseEther("5") })).wait();
+      logger.detail("TransientLockVault", await vault.getAddress());
+      logger.detail("ReentrancyAttacker", await attacker.getAddress());
+    });
+
+    it("C1. Test Transient Lock Blocks Reentrancy", async function () {
+      logger.section("Test Purpose");
+      logger.info("Verify a re-entrant withdraw() hits the transient lock and only the attacker's own deposit is paid out");
+
+      const vaultAddress = await vault.getAddress();
+      const vaultBalanceBefore = await ethers.provider.getBalance(vaultAddress);
+      await confirm("attack(reenter = true) with 1 ETH", attacker.attack(true, { value: parseEther("1") }));
+
+      const reentryError = await attacker.reentryError();
+      logger.note("Re-entrant withdraw()", `reverted: ${reentryError}`);
+      expect(reentryError).to.equal("TransientLockVault: reentrant call");
+      expect(await attacker.lockSeenDuringCall()).to.equal(true);
+      expect(await ethers.provider.getBalance(await attacker.getAddress())).to.equal(parseEther("1"));
+      expect(await ethers.provider.getBalance(vaultAddress)).to.equal(vaultBalanceBefore);
+      logger.info("✓ Reentrancy lock test passed");
+    });
+
+    it("C2. Test Lock Is Released for Sequential Calls", async function () {
+      logger.section("Test Purpose");
+      logger.info("Verify two sequential withdraw() calls in one transaction both pass and the lock is free afterwards");
+
+      await confirm("withdrawTwice() with 2 ETH", attacker.withdrawTwice({ value: parseEther("2") }));
+      expect(await vault.balances(await attacker.getAddress())).to.equal(0);
+      expect(await vault.isLocked()).to.equal(false);
+      logger.note("Lock held after the transaction", await vault.isLocked());
+      logger.info("✓ Lock release test passed");
+    });
+  });
+
+  describe("D. STATICCALL Rules", function () {
+    it("D1. Test TSTORE Is Rejected Under STATICCALL", async function () {
+      logger.section("Test Purpose");
+      logger.info("Verify TSTORE in a static context fails like SSTORE and writes nothing");
+
+      const receipt = await confirm("staticWrite(5, 123)", transientCaller.staticWrite(5, 123));
+      const [result] = eventArgs(receipt, transientCaller, "StaticCallResult");
+      logger.note("STATICCALL to setTransient succeeded / value afterwards", `${result.success} / ${result.value}`);
+      expect(result.success).to.equal(false);
+      expect(result.value).to.equal(0);
+      // The failed call burns only its stipend, not 63/64 of the transaction's gas limit
+      const stipend = await transientCaller.STATIC_CALL_GAS();
+      logger.note("Gas used / static call stipend", `${receipt.gasUsed} / ${stipend}`);
+      expect(receipt.gasUsed).to.be.lessThan(stipend + 100_000n);
+      logger.info("✓ Static TSTORE rejection test passed");
+    });
+
+    it("D2. Test TLOAD Is Allowed Under STATICCALL", async function () {
+      logger.section("Test Purpose");
+      logger.info("Verify TLOAD in a static context reads the value set earlier in the transaction");
+
+      const receipt = await confirm("setThenStaticRead(6, 321)", transientCaller.setThenStaticRead(6, 321));
+      const [result] = eventArgs(receipt, transientCaller, "StaticCallResult");
+      logger.note("STATICCALL to getTransient succeeded / value", `${result.success} / ${result.value}`);
+      expect(result.success).to.equal(true);
+      expect(result.value).to.equal(321);
+      logger.info("✓ Static TLOAD test passed");
+    });
+  });
+});
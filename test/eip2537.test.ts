@@ -0,0 +1,233 @@
+import { expect } from "chai";
+import { ethers, network as hardhatNetwork } from "hardhat";
+import * as fs from "fs";
+import * as path from "path";
+import { Bls12Precompiles } from "../typechain-types";
+import type { Signer } from "ethers";
+import { configuredHardfork, skipUnlessSuiteSupported } from "../utils/suites";
+import { logger } from "../utils/logger";
+
+type PrecompileName = "g1add" | "g1msm" | "g2add" | "g2msm" | "pairing" | "mapFpToG1" | "mapFp2ToG2";
+
+interface KnownAnswerVector {
+  name: string;
+  input: string;
+  expected: string;
+  gas: string;
+}
+
+interface InvalidVector {
+  name: string;
+  category: "length" | "point";
+  precompile: PrecompileName;
+  input: string;
+}
+
+interface VectorFile {
+  addresses: Record<PrecompileName, string>;
+  vectors: Record<PrecompileName, KnownAnswerVector[]>;
+  invalid: InvalidVector[];
+}
+
+// Known-answer vectors, regenerated with scripts/generate-eip2537-vectors.ts
+const VECTORS: VectorFile = JSON.parse(fs.readFileSync(path.join(__dirname, "vectors", "eip2537.json"), "utf8"));
+
+const PRECOMPILE_LABELS: Record<PrecompileName, string> = {
+  g1add: "BLS12_G1ADD",
+  g1msm: "BLS12_G1MSM",
+  g2add: "BLS12_G2ADD",
+  g2msm: "BLS12_G2MSM",
+  pairing: "BLS12_PAIRING_CHECK",
+  mapFpToG1: "BLS12_MAP_FP_TO_G1",
+  mapFp2ToG2: "BLS12_MAP_FP2_TO_G2",
+};
+
+describe("EIP-2537 Complete Test Suite", function () {
+  let bls: Bls12Precompiles;
+  let owner: Signer;
+
+  let blsAddress: string;
+  let ownerAddress: string;
+
+  let chainId: bigint;
+
+  before(async function () {
+    const signers = await ethers.getSigners();
+    if (signers.length < 1) {
+      throw new Error("Test initialization failed: At least 1 account required (owner). Configure PRIVATE_KEY, see example.env.");
+    }
+
+    // Skip the whole suite with one reason on nodes missing any BLS12-381 precompile
+    await skipUnlessSuiteSupported(this, { provider: ethers.provider, network: hardhatNetwork.name, hardfork: configuredHardfork(hardhatNetwork.config), funder: signers[0] }, "eip2537");
+
+    [owner] = signers;
+    ownerAddress = await owner.getAddress();
+
+    const network = await ethers.provider.getNetwork();
+    chainId = network.chainId;
+
+    logger.environment({
+      network: hardhatNetwork.name,
+      chainId: chainId.toString(),
+      accounts: { Owner: ownerAddress },
+    });
+
+    const BlsFactory = await ethers.getContractFactory("Bls12Precompiles");
+    bls = await BlsFactory.deploy();
+    await bls.waitForDeployment();
+    blsAddress = await bls.getAddress();
+
+    logger.section("Contract Deployment Complete");
+    logger.detail("Bls12Precompiles", blsAddress);
+  });
+
+  // Run every known-answer vector of one precompile and compare the output byte for byte
+  async function checkKnownAnswers(precompile: PrecompileName): Promise<void> {
+    for (const vector of VECTORS.vectors[precompile]) {
+      const [success, output] = await bls.callPrecompile(VECTORS.addresses[precompile], vector.input);
+      logger.note(vector.name, success && output === vector.expected ? "match" : `mismatch (success ${success})`);
+      expect(success, vector.name).to.equal(true);
+      expect(output, vector.name).to.equal(vector.expected);
+    }
+  }
+
+  describe("A. Known-Answer Vectors", function () {
+    it("A1. Test G1ADD Vectors", async function () {
+      logger.section("Test Purpose");
+      logger.info("Verify BLS12_G1ADD (0x0b) against the known-answer vectors, including points outside the subgroup");
+      await checkKnownAnswers("g1add");
+      logger.info("✓ G1ADD vectors test passed");
+    });
+
+    it("A2. Test G1MSM Vectors", async function () {
+      logger.section("Test Purpose");
+      logger.info("Verify BLS12_G1MSM (0x0c) for 1-3 pairs, zero scalars and scalars at or above the group order");
+      await checkKnownAnswers("g1msm");
+      logger.info("✓ G1MSM vectors test passed");
+    });
+
+    it("A3. Test G2ADD Vectors", async function () {
+      logger.section("Test Purpose");
+      logger.info("Verify BLS12_G2ADD (0x0d) against the known-answer vectors");
+      await checkKnownAnswers("g2add");
+      logger.info("✓ G2ADD vectors test passed");
+    });
+
+    it("A4. Test G2MSM Vectors", async function () {
+      logger.section("Test Purpose");
+      logger.info("Verify BLS12_G2MSM (0x0e) for 1-3 pairs and zero scalars");
+      await checkKnownAnswers("g2msm");
+      logger.info("✓ G2MSM vectors test passed");
+    });
+
+    it("A5. Test PAIRING_CHECK Vectors", async function () {
+      logger.section("Test Purpose");
+      logger.info("Verify BLS12_PAIRING_CHECK (0x0f) returns 1 exactly when the product of pairings is the identity");
+      await checkKnownAnswers("pairing");
+      logger.info("✓ PAIRING_CHECK vectors test passed");
+    });
+
+    it("A6. Test MAP_FP_TO_G1 Vectors", async function () {
+      logger.section("Test Purpose");
+      logger.info("Verify BLS12_MAP_FP_TO_G1 (0x10) maps field elements to the expected G1 points");
+      await checkKnownAnswers("mapFpToG1");
+      logger.info("✓ MAP_FP_TO_G1 vectors test passed");
+    });
+
+    it("A7. Test MAP_FP2_TO_G2 Vectors", async function () {
+      logger.section("Test Purpose");
+      logger.info("Verify BLS12_MAP_FP2_TO_G2 (0x11) maps Fp2 elements to the expected G2 points");
+      await checkKnownAnswers("mapFp2ToG2");
+      logger.info("✓ MAP_FP2_TO_G2 vectors test passed");
+    });
+  });
+
+  describe("B. Invalid Inputs", function () {
+    // Invalid inputs must fail the call and return no data
+    async function checkRejected(vectors: InvalidVector[]): Promise<void> {
+      expect(vectors.length).to.be.greaterThan(0);
+      for (const vector of vectors) {
+        const [success, output] = await bls.callPrecompile(VECTORS.addresses[vector.precompile], vector.input);
+        logger.note(vector.name, success ? `accepted (output ${output.slice(0, 18)}…)` : "rejected");
+        expect(success, vector.name).to.equal(false);
+        expect(output, vector.name).to.equal("0x");
+      }
+    }
+
+    it("B1. Test Wrong Input Lengths Are Rejected", async function () {
+      logger.section("Test Purpose");
+      logger.info("Verify inputs that are empty, truncated or one byte too long fail");
+      await checkRejected(VECTORS.invalid.filter((vector) => vector.category === "length"));
+      logger.info("✓ Input length test passed");
+    });
+
+    it("B2. Test Invalid Points and Field Elements Are Rejected", async function () {
+      logger.section("Test Purpose");
+      logger.info("Verify points off the curve, MSM/pairing points outside the subgroup, coordinates >= p and non-zero padding fail");
+      await checkRejected(VECTORS.invalid.filter((vector) => vector.category === "point"));
+      logger.info("✓ Invalid point test passed");
+    });
+
+    it("B3. Test Failed Call Consumes All Forwarded Gas", async function () {
+      logger.section("Test Purpose");
+      logger.info("Verify a precompile error burns all gas forwarded to it, like any exceptional halt");
+
+      const forwarded = 500_000n;
+      const [invalid] = VECTORS.invalid;
+      const [valid] = VECTORS.vectors[invalid.precompile];
+      const address = VECTORS.addresses[invalid.precompile];
+
+      const validReceipt = await (await bls.connect(owner).recordCall(address, valid.input, forwarded)).wait();
+      const invalidReceipt = await (await bls.connect(owner).recordCall(address, invalid.input, forwarded)).wait();
+      if (!validReceipt || !invalidReceipt) throw new Error("No receipt");
+      logger.receipt(`recordCall("${valid.name}", ${forwarded} gas)`, validReceipt);
+      logger.receipt(`recordCall("${invalid.name}", ${forwarded} gas)`, invalidReceipt);
+
+      const [event] = invalidReceipt.logs.map((log) => bls.interface.parseLog(log)).filter((e) => e?.name === "PrecompileCalled");
+      expect(event!.args.success).to.equal(false);
+      expect(event!.args.outputLength).to.equal(0n);
+      // The valid call pays its price; the invalid one pays everything it was given
+      expect(validReceipt.gasUsed).to.be.lessThan(forwarded);
+      expect(invalidReceipt.gasUsed).to.be.greaterThan(forwarded);
+      logger.info("✓ Gas burn test passed");
+    });
+  });
+
+  describe("C. Gas Charges", function () {
+    it("C1. Test Exact Gas Price of Every Precompile", async function () {
+      logger.section("Test Purpose");
+      logger.info("Verify each vector succeeds with exactly its EIP-2537 price and fails with one gas less");
+
+      for (const precompile of Object.keys(PRECOMPILE_LABELS) as PrecompileName[]) {
+        // One vector per distinct price: MSM and pairing prices depend on the number of pairs
+        const seen = new Set<string>();
+        for (const vector of VECTORS.vectors[precompile].filter((v) => !seen.has(v.gas) && seen.add(v.gas))) {
+          const gas = BigInt(vector.gas);
+          const [enough, output] = await bls.callPrecompileWithGas(VECTORS.addresses[precompile], vector.input, gas);
+          const [short] = await bls.callPrecompileWithGas(VECTORS.addresses[precompile], vector.input, gas - 1n);
+          logger.note(`${PRECOMPILE_LABELS[precompile]}: ${vector.name}`, `${gas} gas`);
+          expect(enough, `${vector.name} with ${gas} gas`).to.equal(true);
+          expect(output).to.equal(vector.expected);
+          expect(short, `${vector.name} with ${gas - 1n} gas`).to.equal(false);
+        }
+      }
+      logger.info("✓ Exact gas price test passed");
+    });
+
+    it("C2. Test Pairing Check in a Transaction", async function () {
+      logger.section("Test Purpose");
+      logger.info("Verify a contract can run a two-pair pairing check on-chain and pays at least its price");
+
+      const [vector] = VECTORS.vectors.pairing;
+      const tx = await bls.connect(owner).verifyPairing(vector.input);
+      const receipt = await tx.wait();
+      if (!receipt) throw new Error("No receipt");
+      logger.receipt(`verifyPairing("${vector.name}")`, receipt);
+
+      const [event] = receipt.logs.map((log) => bls.interface.parseLog(log)).filter((e) => e?.name === "PairingChecked");
+      expect(event!.args.valid).to.equal(true);
+      expect(receipt.gasUsed).to.be.greaterThan(BigInt(vector.gas));
+      logger.info("✓ On-chain pairing test passed");
+    });
+  });
+});
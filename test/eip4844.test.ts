@@ -0,0 +1,287 @@
+import { expect } from "chai";
+import { ethers, network as hardhatNetwork } from "hardhat";
+import { BlobOpcodes } from "../typechain-types";
+import type { HDNodeWallet, RlpStructuredData, Signer, TransactionReceipt } from "ethers";
+import { concat, decodeRlp, encodeRlp, ZeroHash } from "ethers";
+import { getNetworkCapabilities } from "../utils/capabilities";
+import { configuredHardfork, skipUnlessSuiteSupported } from "../utils/suites";
+import { createFundedWallet } from "../utils/eip7702";
+import {
+  BLOB_GAS_SCHEDULES,
+  BLOB_TX_TYPE,
+  blobBaseFee,
+  computeBlobSidecar,
+  encodeBlob,
+  GAS_PER_BLOB,
+  nextExcessBlobGas,
+  populateBlobTransaction,
+  sendRawBlobTransaction,
+  signBlobTransaction,
+} from "../utils/eip4844";
+import type { BlobGasSchedule, BlobSidecar, BlobTransactionRequest } from "../utils/eip4844";
+import { logger } from "../utils/logger";
+
+describe("EIP-4844 Complete Test Suite", function () {
+  let blobOpcodes: BlobOpcodes;
+  let owner: Signer;
+  let blobSender: HDNodeWallet;
+
+  let blobOpcodesAddress: string;
+  let ownerAddress: string;
+
+  let chainId: bigint;
+  let schedule: BlobGasSchedule;
+  // Two distinct blobs, proven once and shared by the tests
+  let sidecar: BlobSidecar;
+
+  before(async function () {
+    const signers = await ethers.getSigners();
+    if (signers.length < 1) {
+      throw new Error("Test initialization failed: At least 1 account required (owner). Configure PRIVATE_KEY, see example.env.");
+    }
+
+    const probeOptions = { provider: ethers.provider, network: hardhatNetwork.name, funder: signers[0] };
+    // Skip the whole suite with one reason on nodes without blob transactions or blob opcodes
+    await skipUnlessSuiteSupported(this, { ...probeOptions, hardfork: configuredHardfork(hardhatNetwork.config) }, "eip4844");
+
+    [owner] = signers;
+    ownerAddress = await owner.getAddress();
+
+    const network = await ethers.provider.getNetwork();
+    chainId = network.chainId;
+
+    // Prague raised the blob target and slowed the fee update (EIP-7691); type 0x04 support marks Prague
+    const capabilities = await getNetworkCapabilities(probeOptions);
+    const prague = capabilities.results.some((result) => result.id === "tx-type-4" && result.status === "supported");
+    schedule = prague ? BLOB_GAS_SCHEDULES.prague : BLOB_GAS_SCHEDULES.cancun;
+
+    // Blob transactions are signed locally, so the sender must be a wallet with a private key
+    blobSender = await createFundedWallet(owner, "10");
+
+    logger.environment({
+      network: hardhatNetwork.name,
+      chainId: chainId.toString(),
+      accounts: { Owner: ownerAddress, "Blob sender": blobSender.address },
+    });
+
+    const BlobOpcodesFactory = await ethers.getContractFactory("BlobOpcodes");
+    blobOpcodes = await BlobOpcodesFactory.deploy();
+    await blobOpcodes.waitForDeployment();
+    blobOpcodesAddress = await blobOpcodes.getAddress();
+
+    logger.section("Contract Deployment Complete");
+    logger.detail("BlobOpcodes", blobOpcodesAddress);
+    logger.detail("Blob schedule", `${prague ? "prague" : "cancun"} (target ${schedule.targetBlobsPerBlock}, max ${schedule.maxBlobsPerBlock})`);
+
+    sidecar = computeBlobSidecar([encodeBlob("0x" + "11".repeat(64)), encodeBlob("0x" + "22".repeat(64))]);
+  });
+
+  async function sendBlobTransaction(label: string, request: Omit<BlobTransactionRequest, "to">): Promise<TransactionReceipt> {
+    const receipt = await sendRawBlobTransaction(blobSender, { to: blobOpcodesAddress, ...request });
+    logger.receipt(label, receipt);
+    return receipt;
+  }
+
+  // Values of one event type emitted by a receipt, in order
+  function eventArgs(receipt: TransactionReceipt, name: string) {
+    return receipt.logs
+      .map((log) => blobOpcodes.interface.parseLog(log))
+      .filter((event) => event?.name === name)
+      .map((event) => event!.args);
+  }
+
+  describe("A. BLOBHASH", function () {
+    it("A1. Test BLOBHASH Returns Versioned Hashes of Existing Blobs", async function () {
+      logger.section("Test Purpose");
+      logger.info("Verify BLOBHASH(i) returns the i-th versioned hash of the transaction, from both the global and the Yul builtin");
+
+      const receipt = await sendBlobTransaction(
+        "Blob transaction calling recordBlobHashes([0, 1])",
+        { sidecar, data: blobOpcodes.interface.encodeFunctionData("recordBlobHashes", [[0n, 1n]]) }
+      );
+      expect(receipt.status).to.equal(1);
+      expect(receipt.type).to.equal(BLOB_TX_TYPE);
+
+      const reads = eventArgs(receipt, "BlobHashRead");
+      expect(reads.length).to.equal(2);
+      reads.forEach((read, i) => {
+        logger.note(`BLOBHASH(${i})`, read.globalValue);
+        expect(read.globalValue).to.equal(sidecar.versionedHashes[i]);
+        expect(read.yulValue).to.equal(sidecar.versionedHashes[i]);
+      });
+      logger.info("✓ BLOBHASH existing index test passed");
+    });
+
+    it("A2. Test BLOBHASH Returns Zero for Out-of-Range Indexes", async function () {
+      logger.section("Test Purpose");
+      logger.info("Verify BLOBHASH returns zero for indexes at or beyond the blob count instead of failing");
+
+      const indexes = [2n, 3n, 2n ** 64n, 2n ** 256n - 1n];
+      const receipt = await sendBlobTransaction(
+        "Blob transaction calling recordBlobHashes with out-of-range indexes",
+        { sidecar, data: blobOpcodes.interface.encodeFunctionData("recordBlobHashes", [indexes]) }
+      );
+      expect(receipt.status).to.equal(1);
+
+      const reads = eventArgs(receipt, "BlobHashRead");
+      expect(reads.map((read) => read.index)).to.deep.equal(indexes);
+      for (const read of reads) {
+        expect(read.globalValue).to.equal(ZeroHash);
+        expect(read.yulValue).to.equal(ZeroHash);
+      }
+      logger.note("BLOBHASH(2), BLOBHASH(3), BLOBHASH(2^64), BLOBHASH(2^256 - 1)", "all zero");
+      logger.info("✓ BLOBHASH out-of-range test passed");
+    });
+
+    it("A3. Test BLOBHASH Is Zero Outside Blob Transactions", async function () {
+      logger.section("Test Purpose");
+      logger.info("Verify BLOBHASH(0) is zero in a type 0x02 transaction and in eth_call");
+
+      const [globalValue, yulValue] = await blobOpcodes.getBlobHash(0);
+      expect(globalValue).to.equal(ZeroHash);
+      expect(yulValue).to.equal(ZeroHash);
+
+      const receipt = await (await blobOpcodes.connect(owner).recordBlobHashes([0n])).wait();
+      if (!receipt) throw new Error("No receipt");
+      logger.receipt("Type 0x02 transaction calling recordBlobHashes([0])", receipt);
+      const [read] = eventArgs(receipt, "BlobHashRead");
+      expect(read.globalValue).to.equal(ZeroHash);
+      expect(read.yulValue).to.equal(ZeroHash);
+      logger.info("✓ BLOBHASH outside blob transactions test passed");
+    });
+  });
+
+  describe("B. BLOBBASEFEE", function () {
+    it("B1. Test BLOBBASEFEE Matches the Block Header", async function () {
+      logger.section("Test Purpose");
+      logger.info("Verify BLOBBASEFEE equals the fee derived from the block's excess_blob_gas, from both the global and the Yul builtin");
+
+      const receipt = await sendBlobTransaction(
+        "Blob transaction calling recordBlobBaseFee()",
+        { sidecar, data: blobOpcodes.interface.encodeFunctionData("recordBlobBaseFee") }
+      );
+      const [read] = eventArgs(receipt, "BlobBaseFeeRead");
+      const block = await ethers.provider.send("eth_getBlockByNumber", [`0x${receipt.blockNumber.toString(16)}`, false]);
+      const expected = blobBaseFee(BigInt(block.excessBlobGas), schedule);
+
+      logger.note("excess_blob_gas / blob_gas_used", `${BigInt(block.excessBlobGas)} / ${BigInt(block.blobGasUsed)}`);
+      logger.note("BLOBBASEFEE", read.globalValue);
+      expect(read.globalValue).to.equal(expected);
+      expect(read.yulValue).to.equal(expected);
+      expect(BigInt(block.blobGasUsed)).to.be.at.least(2n * GAS_PER_BLOB);
+      logger.info("✓ BLOBBASEFEE header test passed");
+    });
+
+    it("B2. Test Blob Base Fee Rises With Full Blocks", async function () {
+      logger.section("Test Purpose");
+      logger.info("Verify excess blob gas accumulates over blocks above the blob target and raises BLOBBASEFEE");
+
+      // The same blob repeated fills a block; its proof is computed once
+      const full = computeBlobSidecar(Array(schedule.maxBlobsPerBlock).fill(encodeBlob("0x01")));
+      const [initialFee] = await blobOpcodes.getBlobBaseFee();
+      let fee = initialFee;
+
+      for (let i = 0; i < 20 && fee <= initialFee; i++) {
+        const receipt = await sendRawBlobTransaction(blobSender, {
+          to: blobOpcodesAddress,
+          sidecar: full,
+          data: blobOpcodes.interface.encodeFunctionData("recordBlobBaseFee"),
+        });
+        const block = await ethers.provider.send("eth_getBlockByNumber", [`0x${receipt.blockNumber.toString(16)}`, false]);
+        const parent = await ethers.provider.send("eth_getBlockByNumber", [`0x${(receipt.blockNumber - 1).toString(16)}`, false]);
+        const excess = BigInt(block.excessBlobGas);
+
+        expect(excess).to.equal(nextExcessBlobGas(BigInt(parent.excessBlobGas), BigInt(parent.blobGasUsed), schedule));
+        [fee] = eventArgs(receipt, "BlobBaseFeeRead").map((read) => read.globalValue as bigint);
+        expect(fee).to.equal(blobBaseFee(excess, schedule));
+        logger.note(`Block ${receipt.blockNumber}: excess_blob_gas / BLOBBASEFEE`, `${excess} / ${fee}`);
+      }
+
+      expect(fee).to.be.greaterThan(initialFee);
+      logger.info("✓ Blob base fee increase test passed");
+    });
+  });
+
+  describe("C. Malformed Blob Transactions", function () {
+    // Submit a raw transaction that must be rejected, check the sender's nonce did not move, and return the node's reason
+    async function expectRejected(label: string, raw: string): Promise<string> {
+      const nonceBefore = await ethers.provider.getTransactionCount(blobSender.address);
+      let message: string | undefined;
+      try {
+        await ethers.provider.send("eth_sendRawTransaction", [raw]);
+      } catch (error: any) {
+        message = String(error?.message ?? error).split("\n")[0];
+      }
+      expect(message, `${label} was accepted`).to.not.equal(undefined);
+      logger.note(`${label} rejected`, message);
+      expect(await ethers.provider.getTransactionCount(blobSender.address)).to.equal(nonceBefore);
+      return message!;
+    }
+
+    async function signedRaw(request: Omit<BlobTransactionRequest, "to">, signedSidecar: BlobSidecar = request.sidecar): Promise<string> {
+      const tx = await populateBlobTransaction(blobSender, { to: blobOpcodesAddress, ...request });
+      return signBlobTransaction(tx, signedSidecar, blobSender.signingKey).raw;
+    }
+
+    // Re-encode the network form after editing its decoded RLP fields
+    function rewrap(raw: string, edit: (fields: RlpStructuredData[]) => RlpStructuredData): string {
+      const fields = decodeRlp("0x" + raw.slice(4)) as RlpStructuredData[];
+      return concat(["0x03", encodeRlp(edit(fields))]);
+    }
+
+    it("C1. Test Blob Transaction Without Blobs Is Rejected", async function () {
+      const empty: BlobSidecar = { blobs: [], commitments: [], proofs: [], versionedHashes: [] };
+      await expectRejected("Type 0x03 transaction with no blobs", await signedRaw({ sidecar: empty }));
+      logger.info("✓ Empty blob list test passed");
+    });
+
+    it("C2. Test Invalid Versioned Hash Version Is Rejected", async function () {
+      const versionedHashes = sidecar.versionedHashes.map((hash) => "0x02" + hash.slice(4));
+      await expectRejected("Versioned hashes with version byte 0x02", await signedRaw({ sidecar, blobVersionedHashes: versionedHashes }));
+      logger.info("✓ Versioned hash version test passed");
+    });
+
+    it("C3. Test Versioned Hashes Not Matching Commitments Are Rejected", async function () {
+      const swapped = [sidecar.versionedHashes[1], sidecar.versionedHashes[0]];
+      await expectRejected("Versioned hashes in swapped order", await signedRaw({ sidecar, blobVersionedHashes: swapped }));
+      logger.info("✓ Versioned hash mismatch test passed");
+    });
+
+    it("C4. Test Invalid KZG Proofs Are Rejected", async function () {
+      const swappedProofs = { ...sidecar, proofs: [sidecar.proofs[1], sidecar.proofs[0]] };
+      await expectRejected("Sidecar with swapped KZG proofs", await signedRaw({ sidecar }, swappedProofs));
+      logger.info("✓ KZG proof test passed");
+    });
+
+    it("C5. Test Max Fee Per Blob Gas Below Blob Base Fee Is Rejected", async function () {
+      // The blob base fee is at least 1 wei, so a cap of 0 is always too low
+      await expectRejected("maxFeePerBlobGas of 0", await signedRaw({ sidecar, maxFeePerBlobGas: 0n }));
+      logger.info("✓ Blob fee cap test passed");
+    });
+
+    it("C6. Test More Blobs Than a Block Holds Is Rejected", async function () {
+      const tooMany = computeBlobSidecar(Array(schedule.maxBlobsPerBlock + 1).fill(encodeBlob("0x01")));
+      await expectRejected(`Transaction with ${schedule.maxBlobsPerBlock + 1} blobs`, await signedRaw({ sidecar: tooMany }));
+      logger.info("✓ Blob count limit test passed");
+    });
+
+    it("C7. Test Blob Transaction Creating a Contract Is Rejected", async function () {
+      // Empty `to` field, signed as such: blob transactions cannot create contracts
+      const tx = await populateBlobTransaction(blobSender, { to: blobOpcodesAddress, sidecar });
+      const { raw } = signBlobTransaction({ ...tx, to: null }, sidecar, blobSender.signingKey);
+      const reason = await expectRejected("Type 0x03 transaction with an empty destination", raw);
+      // Rejected for the destination itself, whether at decoding (EDR/reth "unexpected length", geth
+      // "too short for common.Address") or by rule, not for the sender's funds or signature
+      expect(reason).to.match(/unexpected length|common\.Address|creat/i);
+      expect(reason).to.not.match(/insufficient funds|nonce|signature|sender/i);
+      logger.info("✓ Contract creation test passed");
+    });
+
+    it("C8. Test Blob Transaction Without Sidecar Is Rejected", async function () {
+      // Signed payload only: the node cannot verify blobs it never received
+      const raw = rewrap(await signedRaw({ sidecar }), ([payload]) => payload);
+      await expectRejected("Type 0x03 transaction without blobs, commitments and proofs", raw);
+      logger.info("✓ Missing sidecar test passed");
+    });
+  });
+});
@@ -0,0 +1,207 @@
+import { expect } from "chai";
+import { ethers, network as hardhatNetwork } from "hardhat";
+import { McopyTest } from "../typechain-types";
+import type { Signer } from "ethers";
+import { getBytes, hexlify, keccak256, randomBytes } from "ethers";
+import { configuredHardfork, skipUnlessSuiteSupported } from "../utils/suites";
+import { logger } from "../utils/logger";
+
+describe("EIP-5656 Complete Test Suite", function () {
+  let mcopyTest: McopyTest;
+  let owner: Signer;
+  let ownerAddress: string;
+  let mcopyTestAddress: string;
+  let chainId: bigint;
+
+  const METHOD_MCOPY = 0;
+  const METHOD_LOOP = 1;
+  const METHOD_IDENTITY = 2;
+
+  before(async function () {
+    const signers = await ethers.getSigners();
+    if (signers.length < 1) {
+      throw new Error("Test initialization failed: At least 1 account required (owner). Configure PRIVATE_KEY, see example.env.");
+    }
+
+    // Skip the whole suite with one reason on nodes without MCOPY
+    await skipUnlessSuiteSupported(this, { provider: ethers.provider, network: hardhatNetwork.name, hardfork: configuredHardfork(hardhatNetwork.config), funder: signers[0] }, "eip5656");
+
+    [owner] = signers;
+    ownerAddress = await owner.getAddress();
+
+    const network = await ethers.provider.getNetwork();
+    chainId = network.chainId;
+
+    logger.environment({
+      network: hardhatNetwork.name,
+      chainId: chainId.toString(),
+      accounts: { Owner: ownerAddress },
+    });
+
+    const McopyTestFactory = await ethers.getContractFactory("McopyTest");
+    mcopyTest = await McopyTestFactory.deploy();
+    await mcopyTest.waitForDeployment();
+    mcopyTestAddress = await mcopyTest.getAddress();
+
+    logger.section("Contract Deployment Complete");
+    logger.detail("McopyTest", mcopyTestAddress);
+  });
+
+  // memmove semantics: the source is read completely before the destination is written
+  function referenceCopy(data: Uint8Array, dst: number, src: number, len: number): string {
+    const result = Uint8Array.from(data);
+    result.set(data.slice(src, src + len), dst);
+    return hexlify(result);
+  }
+
+  // Memory cost of `bytes` of memory (yellow paper C_mem): 3 * words + words^2 / 512
+  function memoryCost(bytes: bigint): bigint {
+    const words = (bytes + 31n) / 32n;
+    return 3n * words + (words * words) / 512n;
+  }
+
+  function words(len: number): bigint {
+    return BigInt(Math.ceil(len / 32));
+  }
+
+  async function copyAll(data: Uint8Array, dst: number, src: number, len: number) {
+    return {
+      mcopy: await mcopyTest.mcopyCopy(data, dst, src, len),
+      loop: await mcopyTest.loopCopy(data, dst, src, len),
+      identity: await mcopyTest.identityCopy(data, dst, src, len),
+    };
+  }
+
+  describe("A. Copy Correctness", function () {
+    it("A1. Test Non-Overlapping Copy", async function () {
+      logger.section("Test Purpose");
+      logger.info("Verify MCOPY, the word loop and the identity precompile agree on a non-overlapping copy");
+
+      const data = randomBytes(160);
+      const expected = referenceCopy(data, 100, 3, 45);
+      const results = await copyAll(data, 100, 3, 45);
+      logger.note("Copy", "45 bytes from offset 3 to offset 100 of a 160-byte buffer");
+
+      expect(results.mcopy).to.equal(expected);
+      expect(results.loop).to.equal(expected);
+      expect(results.identity).to.equal(expected);
+      logger.info("✓ Non-overlapping copy test passed");
+    });
+
+    it("A2. Test Overlapping Copy to a Higher Address", async function () {
+      logger.section("Test Purpose");
+      logger.info("Verify MCOPY copies as if through a temporary buffer when dst > src overlaps, unlike a forward loop");
+
+      const data = getBytes(hexlify(Uint8Array.from({ length: 128 }, (_, i) => i)));
+      const expected = referenceCopy(data, 8, 0, 96);
+      const results = await copyAll(data, 8, 0, 96);
+
+      logger.note("MCOPY result matches memmove", results.mcopy === expected);
+      logger.note("Identity precompile result matches memmove", results.identity === expected);
+      logger.note("Forward loop result matches memmove", results.loop === expected);
+      expect(results.mcopy).to.equal(expected);
+      expect(results.identity).to.equal(expected);
+      // The loop re-reads bytes it already overwrote from the second word on
+      expect(results.loop).to.not.equal(expected);
+      expect(getBytes(results.loop).slice(8, 40)).to.deep.equal(data.slice(0, 32));
+      logger.info("✓ Overlapping copy (dst > src) test passed");
+    });
+
+    it("A3. Test Overlapping Copy to a Lower Address", async function () {
+      logger.section("Test Purpose");
+      logger.info("Verify MCOPY handles an overlapping copy with dst < src");
+
+      const data = getBytes(hexlify(Uint8Array.from({ length: 128 }, (_, i) => 255 - i)));
+      const expected = referenceCopy(data, 0, 8, 100);
+      const results = await copyAll(data, 0, 8, 100);
+
+      expect(results.mcopy).to.equal(expected);
+      expect(results.identity).to.equal(expected);
+      // Copying downwards, a forward loop only overwrites bytes it has already read
+      expect(results.loop).to.equal(expected);
+      logger.info("✓ Overlapping copy (dst < src) test passed");
+    });
+
+    it("A4. Test Zero-Length Copies", async function () {
+      logger.section("Test Purpose");
+      logger.info("Verify a zero-length MCOPY changes nothing and does not expand memory, even at huge offsets");
+
+      const data = randomBytes(64);
+      expect(await mcopyTest.mcopyCopy(data, 10, 40, 0)).to.equal(hexlify(data));
+
+      const [gasUsed, msizeBefore, msizeAfter] = await mcopyTest.zeroLengthCopy(2n ** 64n, 2n ** 128n);
+      logger.note("Zero-length MCOPY at offsets 2^64 / 2^128: gas, MSIZE before -> after", `${gasUsed}, ${msizeBefore} -> ${msizeAfter}`);
+      expect(msizeAfter).to.equal(msizeBefore);
+      // Any memory expansion to 2^64 would run out of gas; only the base cost and the GAS readings remain
+      expect(gasUsed).to.be.lessThan(20n);
+      logger.info("✓ Zero-length copy test passed");
+    });
+  });
+
+  describe("B. Gas Cost", function () {
+    it("B1. Test MCOPY Gas Formula", async function () {
+      logger.section("Test Purpose");
+      logger.info("Verify MCOPY costs 3 + 3 * words when memory is already expanded");
+
+      // Two GAS readings and the operand handling around MCOPY, measured with a zero-length copy
+      const [zero] = await mcopyTest.measureCopy(METHOD_MCOPY, 0, 64, 0, true);
+      const overhead = zero - 3n;
+      logger.note("Measurement overhead", overhead);
+
+      for (const len of [1, 31, 32, 33, 256, 1000]) {
+        const [gasUsed] = await mcopyTest.measureCopy(METHOD_MCOPY, 0, len + 64, len, true);
+        logger.note(`MCOPY ${len} bytes`, `${gasUsed - overhead} gas (expected ${3n + 3n * words(len)})`);
+        expect(gasUsed - overhead).to.equal(3n + 3n * words(len));
+      }
+      logger.info("✓ MCOPY gas formula test passed");
+    });
+
+    it("B2. Test Memory Expansion Cost", async function () {
+      logger.section("Test Purpose");
+      logger.info("Verify a copy into untouched memory additionally pays the memory expansion cost");
+
+      for (const len of [32, 1024]) {
+        const [expanded] = await mcopyTest.measureCopy(METHOD_MCOPY, 0, len + 64, len, true);
+        const [fresh, msizeBefore, msizeAfter] = await mcopyTest.measureCopy(METHOD_MCOPY, 0, len + 64, len, false);
+        const expansion = memoryCost(msizeAfter) - memoryCost(msizeBefore);
+        logger.note(`MCOPY ${len} bytes: expanded / fresh memory`, `${expanded} / ${fresh} gas (MSIZE ${msizeBefore} -> ${msizeAfter})`);
+        expect(fresh - expanded).to.equal(expansion);
+      }
+      logger.info("✓ Memory expansion cost test passed");
+    });
+
+    it("B3. Test Large Copies", async function () {
+      logger.section("Test Purpose");
+      logger.info("Verify a 64 KiB overlapping MCOPY is correct and still costs 3 gas per word");
+
+      const size = 64 * 1024;
+      const data = randomBytes(size + 64);
+      const result = await mcopyTest.mcopyCopy(data, 64, 0, size);
+      expect(keccak256(result)).to.equal(keccak256(referenceCopy(data, 64, 0, size)));
+
+      const [zero] = await mcopyTest.measureCopy(METHOD_MCOPY, 0, size + 64, 0, true);
+      const [gasUsed] = await mcopyTest.measureCopy(METHOD_MCOPY, 0, size + 64, size, true);
+      logger.note("MCOPY 64 KiB", `${gasUsed - zero + 3n} gas`);
+      expect(gasUsed - zero).to.equal(3n * words(size));
+      logger.info("✓ Large copy test passed");
+    });
+
+    it("B4. Test Gas Comparison With Loop and Identity Precompile", async function () {
+      logger.section("Test Purpose");
+      logger.info("Compare MCOPY with the word loop and identity precompile copies of the same size");
+
+      for (const len of [32, 256, 1024, 4096, 65536]) {
+        const measured: bigint[] = [];
+        for (const method of [METHOD_MCOPY, METHOD_LOOP, METHOD_IDENTITY]) {
+          const [gasUsed] = await mcopyTest.measureCopy(method, 0, len + 64, len, true);
+          measured.push(gasUsed);
+        }
+        const [mcopy, loop, identity] = measured;
+        logger.note(`Copy ${len} bytes (MCOPY / loop / identity)`, `${mcopy} / ${loop} / ${identity} gas`);
+        expect(mcopy).to.be.lessThan(loop);
+        expect(mcopy).to.be.lessThan(identity);
+      }
+      logger.info("✓ Gas comparison test passed");
+    });
+  });
+});
@@ -0,0 +1,284 @@
+import { expect } from "chai";
+import { ethers, network as hardhatNetwork } from "hardhat";
+import { Destructible, DestructibleFactory, SelfDestructDelegate } from "../typechain-types";
+import type { ContractTransactionReceipt, ContractTransactionResponse, HDNodeWallet, Signer } from "ethers";
+import { hexlify, parseEther, randomBytes, Wallet } from "ethers";
+import { createAuthorization, createFundedWallet, delegateTo, delegationCode, sendType4Transaction } from "../utils/eip7702";
+import { skipUnlessSupported } from "../utils/capabilities";
+import { configuredHardfork, skipUnlessSuiteSupported } from "../utils/suites";
+import { logger } from "../utils/logger";
+
+describe("EIP-6780 Complete Test Suite", function () {
+  let factory: DestructibleFactory;
+  let selfDestructDelegate: SelfDestructDelegate;
+  let owner: Signer;
+
+  let factoryAddress: string;
+  let selfDestructDelegateAddress: string;
+  let ownerAddress: string;
+
+  let chainId: bigint;
+
+  before(async function () {
+    const signers = await ethers.getSigners();
+    if (signers.length < 1) {
+      throw new Error(
+        [
+          "Test initialization failed: At least 1 account required (owner).",
+          `Currently ethers.getSigners() only returned ${signers.length}.`,
+          "Configure a private key (PRIVATE_KEY=...), see example.env in project root directory.",
+        ].join("\n")
+      );
+    }
+
+    // Skip the whole suite with one reason on networks before Cancun (see utils/suites/registry.ts)
+    await skipUnlessSuiteSupported(this, { provider: ethers.provider, network: hardhatNetwork.name, hardfork: configuredHardfork(hardhatNetwork.config), funder: signers[0] }, "eip6780");
+
+    [owner] = signers;
+    ownerAddress = await owner.getAddress();
+
+    const network = await ethers.provider.getNetwork();
+    chainId = network.chainId;
+
+    logger.environment({
+      network: hardhatNetwork.name,
+      chainId: chainId.toString(),
+      accounts: {
+        Owner: ownerAddress,
+      },
+    });
+
+    // Deploy test contracts
+    const FactoryFactory = await ethers.getContractFactory("DestructibleFactory");
+    factory = await FactoryFactory.deploy();
+    await factory.waitForDeployment();
+    factoryAddress = await factory.getAddress();
+
+    const SelfDestructDelegateFactory = await ethers.getContractFactory("SelfDestructDelegate");
+    selfDestructDelegate = await SelfDestructDelegateFactory.deploy();
+    await selfDestructDelegate.waitForDeployment();
+    selfDestructDelegateAddress = await selfDestructDelegate.getAddress();
+
+    logger.section("Contract Deployment Complete");
+    logger.detail("DestructibleFactory", factoryAddress);
+    logger.detail("SelfDestructDelegate", selfDestructDelegateAddress);
+  });
+
+  async function confirm(label: string, pending: Promise<ContractTransactionResponse>): Promise<ContractTransactionReceipt> {
+    const receipt = await (await pending).wait();
+    if (!receipt) throw new Error("No receipt");
+    logger.receipt(label, receipt);
+    return receipt;
+  }
+
+  // What is left of an account after the transaction: code, balance, nonce and slot 0
+  async function accountState(label: string, address: string) {
+    const state = {
+      code: (await ethers.provider.getCode(address)).toLowerCase(),
+      balance: await ethers.provider.getBalance(address),
+      nonce: await ethers.provider.getTransactionCount(address),
+      slot0: BigInt(await ethers.provider.getStorage(address, 0)),
+    };
+    logger.section(label);
+    logger.detail("Code size", (state.code.length - 2) / 2);
+    logger.detail("Balance", state.balance);
+    logger.detail("Nonce", state.nonce);
+    logger.detail("Slot 0", state.slot0);
+    return state;
+  }
+
+  // A unique salt per call, so runs on persistent networks never collide with earlier deployments
+  function freshSalt(): string {
+    return hexlify(randomBytes(32));
+  }
+
+  // Fresh Destructible(value) holding `funding`, deployed in its own transaction
+  async function deployed(value: bigint, funding: bigint): Promise<Destructible> {
+    const salt = freshSalt();
+    const address = await factory.predict(salt, value);
+    await confirm("Create Destructible", factory.create(salt, value, { value: funding }));
+    return ethers.getContractAt("Destructible", address);
+  }
+
+  describe("A. Same-Transaction Destruction", function () {
+    it("A1. Test Contract Created and Destroyed in One Transaction", async function () {
+      logger.section("Test Purpose");
+      logger.info("Verify SELFDESTRUCT in the creation transaction still deletes the account and pays the beneficiary");
+
+      const salt = freshSalt();
+      const instance = await factory.predict(salt, 7n);
+      const beneficiary = Wallet.createRandom().address;
+      const funding = parseEther("1");
+
+      await confirm("createAndDestroy", factory.createAndDestroy(salt, 7n, beneficiary, { value: funding }));
+
+      const state = await accountState("Destroyed Instance", instance);
+      expect(state.code).to.equal("0x");
+      expect(state.balance).to.equal(0n);
+      expect(state.nonce).to.equal(0);
+      expect(state.slot0).to.equal(0n);
+      expect(await ethers.provider.getBalance(beneficiary)).to.equal(funding);
+
+      logger.info("✓ Contract created and destroyed in one transaction test passed");
+    });
+
+    it("A2. Test Self-Beneficiary Burns the Balance in the Creation Transaction", async function () {
+      logger.section("Test Purpose");
+      logger.info("Verify a contract deleted in its creation transaction with itself as beneficiary burns its balance");
+
+      const salt = freshSalt();
+      const instance = await factory.predict(salt, 7n);
+      const factoryBalanceBefore = await ethers.provider.getBalance(factoryAddress);
+
+      await confirm("createAndDestroy to itself", factory.createAndDestroy(salt, 7n, instance, { value: parseEther("1") }));
+
+      const state = await accountState("Destroyed Instance", instance);
+      expect(state.code).to.equal("0x");
+      expect(state.balance).to.equal(0n);
+      expect(await ethers.provider.getBalance(factoryAddress)).to.equal(factoryBalanceBefore);
+
+      logger.info("✓ Self-beneficiary burn test passed");
+    });
+
+    it("A3. Test Redeploy at the Same CREATE2 Address", async function () {
+      logger.section("Test Purpose");
+      logger.info("Verify the address of a contract deleted in its creation transaction can be deployed to again");
+
+      const salt = freshSalt();
+      const instance = await factory.predict(salt, 7n);
+      await confirm("createAndDestroy", factory.createAndDestroy(salt, 7n, ownerAddress));
+      expect(await ethers.provider.getCode(instance)).to.equal("0x");
+
+      await confirm("create with the same salt", factory.create(salt, 7n));
+      const state = await accountState("Redeployed Instance", instance);
+      expect(state.code).to.not.equal("0x");
+      expect(state.slot0).to.equal(7n);
+
+      logger.info("✓ Redeploy at the same CREATE2 address test passed");
+    });
+  });
+
+  describe("B. Pre-Existing Contract", function () {
+    it("B1. Test SELFDESTRUCT Only Sends the Balance", async function () {
+      logger.section("Test Purpose");
+      logger.info("Verify SELFDESTRUCT of a contract created in an earlier transaction keeps code, storage and nonce");
+
+      const destructible = await deployed(9n, parseEther("1"));
+      const address = await destructible.getAddress();
+      const before = await accountState("Before SELFDESTRUCT", address);
+      const beneficiary = Wallet.createRandom().address;
+
+      await confirm("destroy", destructible.destroy(beneficiary));
+
+      const after = await accountState("After SELFDESTRUCT", address);
+      expect(after.code).to.equal(before.code);
+      expect(after.nonce).to.equal(before.nonce);
+      expect(after.slot0).to.equal(9n);
+      expect(after.balance).to.equal(0n);
+      expect(await ethers.provider.getBalance(beneficiary)).to.equal(parseEther("1"));
+
+      // Still a working contract: it reads its storage, accepts ether and can run SELFDESTRUCT again
+      expect(await destructible.value()).to.equal(9n);
+      await (await owner.sendTransaction({ to: address, value: parseEther("0.5") })).wait();
+      await confirm("destroy again", destructible.destroy(beneficiary));
+      expect(await ethers.provider.getBalance(beneficiary)).to.equal(parseEther("1.5"));
+      expect(await ethers.provider.getCode(address)).to.equal(before.code);
+
+      logger.info("✓ SELFDESTRUCT only sends the balance test passed");
+    });
+
+    it("B2. Test Self-Beneficiary Keeps the Balance", async function () {
+      logger.section("Test Purpose");
+      logger.info("Verify a pre-existing contract that names itself as beneficiary keeps its balance");
+
+      const destructible = await deployed(9n, parseEther("1"));
+      const address = await destructible.getAddress();
+
+      await confirm("destroy to itself", destructible.destroy(address));
+
+      const state = await accountState("After SELFDESTRUCT", address);
+      expect(state.code).to.not.equal("0x");
+      expect(state.balance).to.equal(parseEther("1"));
+
+      logger.info("✓ Self-beneficiary keeps the balance test passed");
+    });
+  });
+
+  describe("C. Delegated EOA", function () {
+    before(async function () {
+      const signers = await ethers.getSigners();
+      // This section also needs EIP-7702, which ships a fork after the rest of the suite
+      await skipUnlessSupported(this, { provider: ethers.provider, network: hardhatNetwork.name, funder: signers[0] }, ["tx-type-4"]);
+    });
+
+    // Fresh funded EOA delegated to SelfDestructDelegate by a delegation-only transaction
+    async function delegatedAccount() {
+      const eoa = await createFundedWallet(owner, "1");
+      await delegateTo(eoa, selfDestructDelegateAddress);
+      return { eoa, account: selfDestructDelegate.attach(eoa.address).connect(owner) as SelfDestructDelegate };
+    }
+
+    it("C1. Test Delegate SELFDESTRUCT Keeps the Authority", async function () {
+      logger.section("Test Purpose");
+      logger.info("Verify SELFDESTRUCT run by a delegate only moves the EOA's balance: account, nonce, storage and marker stay");
+
+      const { eoa, account } = await delegatedAccount();
+      await confirm("setMarker(77)", account.setMarker(77n));
+      const before = await accountState("EOA Before SELFDESTRUCT", eoa.address);
+      expect(before.code).to.equal(delegationCode(selfDestructDelegateAddress));
+      const beneficiary = Wallet.createRandom().address;
+
+      await confirm("destroy via delegate", account.destroy(beneficiary));
+
+      const after = await accountState("EOA After SELFDESTRUCT", eoa.address);
+      expect(after.code).to.equal(before.code);
+      expect(after.nonce).to.equal(before.nonce);
+      expect(after.slot0).to.equal(77n);
+      expect(after.balance).to.equal(0n);
+      expect(await ethers.provider.getBalance(beneficiary)).to.equal(before.balance);
+
+      // The key still controls the account: once refunded it sends transactions with the next nonce
+      await (await owner.sendTransaction({ to: eoa.address, value: parseEther("0.1") })).wait();
+      const tx = await eoa.sendTransaction({ to: ownerAddress, value: 1n });
+      await tx.wait();
+      expect(tx.nonce).to.equal(before.nonce);
+      expect(await account.marker()).to.equal(77n);
+
+      logger.info("✓ Delegate SELFDESTRUCT keeps the authority test passed");
+    });
+
+    it("C2. Test SELFDESTRUCT in the Delegating Transaction", async function () {
+      logger.section("Test Purpose");
+      logger.info("Verify an authority that first appears in the transaction running SELFDESTRUCT is not deleted: setting code is not contract creation");
+
+      // Never-used key: the account does not exist until the sponsored type 0x04 transaction delegates it
+      const authority: HDNodeWallet = Wallet.createRandom().connect(ethers.provider);
+      const auth = await createAuthorization(authority, selfDestructDelegateAddress, { sponsored: true });
+      const data = selfDestructDelegate.interface.encodeFunctionData("destroy", [ownerAddress]);
+
+      await sendType4Transaction(owner, authority.address, data, [auth]);
+
+      const state = await accountState("Authority After the Transaction", authority.address);
+      expect(state.code).to.equal(delegationCode(selfDestructDelegateAddress));
+      expect(state.nonce).to.equal(1);
+
+      logger.info("✓ SELFDESTRUCT in the delegating transaction test passed");
+    });
+
+    it("C3. Test Delegate SELFDESTRUCT to the Authority Itself", async function () {
+      logger.section("Test Purpose");
+      logger.info("Verify a delegate that names the EOA itself as beneficiary leaves the balance in place");
+
+      const { eoa, account } = await delegatedAccount();
+      const before = await accountState("EOA Before SELFDESTRUCT", eoa.address);
+
+      await confirm("destroy to the EOA itself", account.destroy(eoa.address));
+
+      const after = await accountState("EOA After SELFDESTRUCT", eoa.address);
+      expect(after.balance).to.equal(before.balance);
+      expect(after.code).to.equal(delegationCode(selfDestructDelegateAddress));
+
+      logger.info("✓ Delegate SELFDESTRUCT to the authority itself test passed");
+    });
+  });
+});
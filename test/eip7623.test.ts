@@ -0,0 +1,295 @@
+import { expect } from "chai";
+import { ethers, network as hardhatNetwork } from "hardhat";
+import { CalldataSink, BatchOperations } from "../typechain-types";
+import type { HDNodeWallet, Signer, TransactionReceipt } from "ethers";
+import { id } from "ethers";
+import {
+  calldataFloorGas,
+  calldataGas,
+  createFundedWallet,
+  delegateTo,
+  delegationCode,
+  expectedGasUsed,
+  intrinsicGas,
+} from "../utils/eip7702";
+import { configuredHardfork, skipUnlessSuiteSupported } from "../utils/suites";
+import { logger } from "../utils/logger";
+
+describe("EIP-7623 Complete Test Suite", function () {
+  let calldataSink: CalldataSink;
+  let batchOperations: BatchOperations;
+  let owner: Signer;
+
+  let calldataSinkAddress: string;
+  let batchOperationsAddress: string;
+  let ownerAddress: string;
+
+  let chainId: bigint;
+
+  before(async function () {
+    const signers = await ethers.getSigners();
+    if (signers.length < 1) {
+      throw new Error(
+        [
+          "Test initialization failed: At least 1 account required (owner).",
+          `Currently ethers.getSigners() only returned ${signers.length}.`,
+          "Configure a private key (PRIVATE_KEY=...), see example.env in project root directory.",
+        ].join("\n")
+      );
+    }
+
+    // Skip the whole suite with one reason on networks before Prague (see utils/suites/registry.ts)
+    await skipUnlessSuiteSupported(this, { provider: ethers.provider, network: hardhatNetwork.name, hardfork: configuredHardfork(hardhatNetwork.config), funder: signers[0] }, "eip7623");
+
+    [owner] = signers;
+    ownerAddress = await owner.getAddress();
+
+    const network = await ethers.provider.getNetwork();
+    chainId = network.chainId;
+
+    logger.environment({
+      network: hardhatNetwork.name,
+      chainId: chainId.toString(),
+      accounts: {
+        Owner: ownerAddress,
+      },
+    });
+
+    // Deploy test contracts
+    const CalldataSinkFactory = await ethers.getContractFactory("CalldataSink");
+    calldataSink = await CalldataSinkFactory.deploy();
+    await calldataSink.waitForDeployment();
+    calldataSinkAddress = await calldataSink.getAddress();
+
+    const BatchOperationsFactory = await ethers.getContractFactory("BatchOperations");
+    batchOperations = await BatchOperationsFactory.deploy();
+    await batchOperations.waitForDeployment();
+    batchOperationsAddress = await batchOperations.getAddress();
+
+    logger.section("Contract Deployment Complete");
+    logger.detail("CalldataSink", calldataSinkAddress);
+    logger.detail("BatchOperations", batchOperationsAddress);
+  });
+
+  // `size` bytes of calldata, all zero or all 0xff
+  function calldata(size: number, byte: "00" | "ff"): string {
+    return "0x" + byte.repeat(size);
+  }
+
+  async function send(from: Signer, to: string, data: string, gasLimit?: bigint): Promise<TransactionReceipt> {
+    const tx = await from.sendTransaction({ to, data, type: 2, ...(gasLimit ? { gasLimit } : {}) });
+    const receipt = await tx.wait();
+    if (!receipt) throw new Error("No receipt");
+    return receipt;
+  }
+
+  // Fresh EOA delegated to `target` by a delegation-only transaction
+  async function delegatedAccount(target: string): Promise<HDNodeWallet> {
+    const eoa = await createFundedWallet(owner, "1");
+    await delegateTo(eoa, target);
+    expect((await ethers.provider.getCode(eoa.address)).toLowerCase()).to.equal(delegationCode(target));
+    return eoa;
+  }
+
+  // Execution gas of a CalldataSink call, measured with 4 non-zero bytes where the standard cost is well above the floor.
+  // The fallback ignores the contents, so the same execution gas applies to any calldata of at least 4 bytes.
+  async function measureExecutionGas(label: string, to: string): Promise<bigint> {
+    const data = calldata(4, "ff");
+    const receipt = await send(owner, to, data);
+    const intrinsic = intrinsicGas({ data, authorizationCount: 0 });
+    expect(receipt.gasUsed).to.be.gt(calldataFloorGas(data));
+    const executionGas = receipt.gasUsed - intrinsic;
+    logger.note(`${label} execution gas`, executionGas);
+    return executionGas;
+  }
+
+  // Compare receipt.gasUsed with max(standard, floor) for one calldata size and report which side applied
+  async function checkGasUsed(label: string, to: string, data: string, executionGas: bigint): Promise<"standard" | "floor"> {
+    const receipt = await send(owner, to, data);
+    const standard = intrinsicGas({ data, authorizationCount: 0 }) + executionGas;
+    const floor = calldataFloorGas(data);
+    const charged = standard >= floor ? "standard" : "floor";
+    logger.note(`${label} gas used / standard / floor`, `${receipt.gasUsed} / ${standard} / ${floor} (${charged})`);
+    expect(receipt.gasUsed).to.equal(expectedGasUsed({ data, authorizationCount: 0 }, executionGas));
+    return charged;
+  }
+
+  async function checkGrowth(to: string, byte: "00" | "ff", sizes: number[], executionGas: bigint): Promise<Array<"standard" | "floor">> {
+    const charged: Array<"standard" | "floor"> = [];
+    for (const size of sizes) {
+      charged.push(await checkGasUsed(`${size} bytes of 0x${byte}`, to, calldata(size, byte), executionGas));
+    }
+    return charged;
+  }
+
+  describe("A. Plain Contract", function () {
+    let executionGas: bigint;
+
+    before(async function () {
+      logger.section("CalldataSink Execution Gas");
+      executionGas = await measureExecutionGas("CalldataSink", calldataSinkAddress);
+    });
+
+    it("A1. Test Zero-Byte Calldata Growth", async function () {
+      logger.section("Test Purpose");
+      logger.info("Verify gasUsed = max(21000 + 4/zero byte + execution, 21000 + 10/zero byte) as zero calldata grows");
+
+      const charged = await checkGrowth(calldataSinkAddress, "00", [4, 64, 256, 1024, 4096], executionGas);
+      expect(charged[0]).to.equal("standard");
+      expect(charged[charged.length - 1]).to.equal("floor");
+
+      logger.info("✓ Zero-byte calldata growth test passed");
+    });
+
+    it("A2. Test Non-Zero Calldata Growth", async function () {
+      logger.section("Test Purpose");
+      logger.info("Verify gasUsed = max(21000 + 16/non-zero byte + execution, 21000 + 40/non-zero byte) as non-zero calldata grows");
+
+      const charged = await checkGrowth(calldataSinkAddress, "ff", [4, 16, 64, 256, 1024], executionGas);
+      expect(charged[0]).to.equal("standard");
+      expect(charged[charged.length - 1]).to.equal("floor");
+
+      logger.info("✓ Non-zero calldata growth test passed");
+    });
+
+    it("A3. Test Floor Crossover", async function () {
+      logger.section("Test Purpose");
+      logger.info("Verify the floor takes over exactly when 6 gas per token exceeds the execution gas");
+
+      // Floor - standard = 6 * tokens - execution: one token per zero byte, four per non-zero byte
+      for (const [byte, tokensPerByte] of [["00", 1n], ["ff", 4n]] as const) {
+        const last = Number(executionGas / (6n * tokensPerByte));
+        logger.section(`Crossover for 0x${byte} bytes`);
+        expect(await checkGasUsed(`${last} bytes of 0x${byte}`, calldataSinkAddress, calldata(last, byte), executionGas)).to.equal("standard");
+        expect(await checkGasUsed(`${last + 1} bytes of 0x${byte}`, calldataSinkAddress, calldata(last + 1, byte), executionGas)).to.equal("floor");
+      }
+
+      logger.info("✓ Floor crossover test passed");
+    });
+
+    it("A4. Test Gas Limit Below the Floor", async function () {
+      logger.section("Test Purpose");
+      logger.info("Verify a transaction whose gas limit covers the standard cost but not the floor is invalid");
+
+      const data = calldata(1024, "ff");
+      const standard = intrinsicGas({ data, authorizationCount: 0 }) + executionGas;
+      const floor = calldataFloorGas(data);
+      logger.note("Standard cost / floor", `${standard} / ${floor}`);
+      expect(floor - 1n).to.be.gt(standard);
+
+      let rejected = false;
+      try {
+        await send(owner, calldataSinkAddress, data, floor - 1n);
+      } catch (error: any) {
+        rejected = true;
+        logger.detail("Gas limit floor - 1 rejected", error.message.split("\n")[0]);
+      }
+      logger.note("Gas limit floor - 1 rejected", rejected);
+      expect(rejected).to.equal(true);
+
+      const receipt = await send(owner, calldataSinkAddress, data, floor);
+      logger.receipt("Gas limit exactly the floor", receipt);
+      expect(receipt.status).to.equal(1);
+      expect(receipt.gasUsed).to.equal(floor);
+
+      logger.info("✓ Gas limit below the floor test passed");
+    });
+  });
+
+  describe("B. Delegated EOA", function () {
+    let delegated: HDNodeWallet;
+    let plainExecutionGas: bigint;
+    let executionGas: bigint;
+
+    before(async function () {
+      logger.section("Delegated EOA Setup");
+      delegated = await delegatedAccount(calldataSinkAddress);
+      logger.detail("EOA -> CalldataSink", delegated.address);
+      plainExecutionGas = await measureExecutionGas("CalldataSink", calldataSinkAddress);
+      executionGas = await measureExecutionGas("Delegated EOA", delegated.address);
+    });
+
+    it("B1. Test Zero-Byte Calldata Growth to a Delegated EOA", async function () {
+      logger.section("Test Purpose");
+      logger.info("Verify the standard / floor comparison for zero calldata sent to an EOA delegated to CalldataSink");
+
+      const charged = await checkGrowth(delegated.address, "00", [4, 64, 256, 1024, 4096], executionGas);
+      expect(charged[0]).to.equal("standard");
+      expect(charged[charged.length - 1]).to.equal("floor");
+
+      logger.info("✓ Zero-byte calldata growth to a delegated EOA test passed");
+    });
+
+    it("B2. Test Non-Zero Calldata Growth to a Delegated EOA", async function () {
+      logger.section("Test Purpose");
+      logger.info("Verify the standard / floor comparison for non-zero calldata sent to an EOA delegated to CalldataSink");
+
+      const charged = await checkGrowth(delegated.address, "ff", [4, 16, 64, 256, 1024], executionGas);
+      expect(charged[0]).to.equal("standard");
+      expect(charged[charged.length - 1]).to.equal("floor");
+
+      logger.info("✓ Non-zero calldata growth to a delegated EOA test passed");
+    });
+
+    it("B3. Test Same Floor for Plain and Delegated Targets", async function () {
+      logger.section("Test Purpose");
+      logger.info("Verify the floor depends only on calldata: the delegation overhead is absorbed once the floor applies");
+
+      logger.note("Delegation overhead (execution gas difference)", executionGas - plainExecutionGas);
+      expect(executionGas).to.be.gte(plainExecutionGas);
+
+      const data = calldata(2048, "ff");
+      const plain = await send(owner, calldataSinkAddress, data);
+      const viaDelegation = await send(owner, delegated.address, data);
+      logger.note("Plain contract gas used", plain.gasUsed);
+      logger.note("Delegated EOA gas used", viaDelegation.gasUsed);
+      expect(plain.gasUsed).to.equal(calldataFloorGas(data));
+      expect(viaDelegation.gasUsed).to.equal(plain.gasUsed);
+
+      logger.info("✓ Same floor for plain and delegated targets test passed");
+    });
+  });
+
+  describe("C. Batching Delegates", function () {
+    let batcher: HDNodeWallet;
+    let account: BatchOperations;
+
+    before(async function () {
+      logger.section("Batching Delegate Setup");
+      batcher = await delegatedAccount(batchOperationsAddress);
+      account = batchOperations.attach(batcher.address).connect(batcher) as BatchOperations;
+      logger.detail("EOA -> BatchOperations", batcher.address);
+    });
+
+    it("C1. Test executeBatch Calldata Cost Against the Floor", async function () {
+      logger.section("Test Purpose");
+      logger.info("Measure how much of a self-call to executeBatch is calldata, and whether the floor ever applies");
+
+      for (const count of [1, 8, 32, 64]) {
+        // Hash-derived values: almost every calldata byte is non-zero, the expensive case for the floor
+        const values = Array.from({ length: count }, (_, i) => BigInt(id(`eip7623-batch-${i}`)));
+        const data = account.interface.encodeFunctionData("executeBatch", [values]);
+        const receipt = await (await account.executeBatch(values)).wait();
+        if (!receipt) throw new Error("No receipt");
+
+        const intrinsic = intrinsicGas({ data, authorizationCount: 0 });
+        const floor = calldataFloorGas(data);
+        const share = (calldataGas(data) * 10_000n) / receipt.gasUsed;
+        logger.note(
+          `N=${count} gas used / intrinsic / floor`,
+          `${receipt.gasUsed} / ${intrinsic} / ${floor} (calldata ${Number(share) / 100}% of gas used)`
+        );
+        expect(await account.getOperationCount(batcher.address)).to.equal(BigInt(count));
+
+        // Every value is pushed to a new storage slot (at least 22100 gas), far more than the
+        // 6 gas per token (at most 32 * 4 * 6 = 768 per value) the floor adds over the standard price
+        expect(receipt.gasUsed).to.be.gt(floor);
+        expect(receipt.gasUsed).to.be.gt(intrinsic);
+
+        await (await account.clearHistory()).wait();
+      }
+
+      logger.info("✓ executeBatch calldata cost test passed");
+    });
+  });
+});
@@ -0,0 +1,44 @@
+import { expect } from "chai";
+import { ethers, network } from "hardhat";
+import { formatCapabilityMatrix, getNetworkCapabilities, missingCapabilities } from "../../utils/capabilities";
+import type { NetworkCapabilities } from "../../utils/capabilities";
+
+describe("Network Capability Probe", function () {
+  const sample: NetworkCapabilities = {
+    network: "devnet",
+    chainId: 551n,
+    results: [
+      { id: "tx-type-2", category: "transaction", name: "Type 0x02 (EIP-1559)", fork: "london", status: "supported" },
+      { id: "tx-type-4", category: "transaction", name: "Type 0x04 (EIP-7702)", fork: "prague", status: "unsupported", detail: "transaction type not supported" },
+      { id: "opcode-mcopy", category: "opcode", name: "MCOPY (EIP-5656)", fork: "cancun", status: "unknown", detail: "a | b" },
+    ],
+  };
+
+  it("Reports the in-process Prague network as fully capable except for EIP-2935", async function () {
+    const [funder] = await ethers.getSigners();
+    const capabilities = await getNetworkCapabilities({ provider: ethers.provider, network: network.name, funder });
+
+    expect(capabilities.chainId).to.equal((await ethers.provider.getNetwork()).chainId);
+    // Hardhat deploys a stub at the history storage address that reverts every call
+    const unsupported = capabilities.results.filter((r) => r.status !== "supported");
+    expect(unsupported.map((r) => r.id), JSON.stringify(unsupported)).to.deep.equal(["system-history-storage"]);
+    expect(unsupported[0].detail).to.contain("reverted");
+  });
+
+  it("Lists missing capabilities with their reason", function () {
+    expect(missingCapabilities(sample, ["tx-type-2"])).to.be.empty;
+    expect(missingCapabilities(sample, ["tx-type-2", "tx-type-4", "opcode-mcopy", "system-history-storage"])).to.deep.equal([
+      "Type 0x04 (EIP-7702): unsupported (transaction type not supported)",
+      "MCOPY (EIP-5656): unknown (a | b)",
+      "system-history-storage: not probed",
+    ]);
+  });
+
+  it("Formats the capability matrix as a Markdown table", function () {
+    const matrix = formatCapabilityMatrix(sample);
+    expect(matrix).to.contain("=== Network Capability Matrix: devnet (Chain ID 551) ===");
+    expect(matrix).to.contain("| transaction | Type 0x04 (EIP-7702) | prague | ❌ unsupported | transaction type not supported |");
+    expect(matrix).to.contain("| opcode | MCOPY (EIP-5656) | cancun | ⚠️ unknown | a \\| b |");
+    expect(matrix).to.contain("Supported: 1/3");
+  });
+});
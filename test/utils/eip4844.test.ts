@@ -0,0 +1,120 @@
+import { expect } from "chai";
+import { decodeRlp, getBytes, keccak256, recoverAddress, sha256, Transaction, Wallet } from "ethers";
+import {
+  BLOB_GAS_SCHEDULES,
+  blobBaseFee,
+  blobTransactionSigningHash,
+  BYTES_PER_BLOB,
+  computeBlobSidecar,
+  encodeBlob,
+  fakeExponential,
+  GAS_PER_BLOB,
+  nextExcessBlobGas,
+  serializeBlobTransaction,
+  signBlobTransaction,
+  USABLE_BYTES_PER_BLOB,
+  verifyBlobSidecar,
+} from "../../utils/eip4844";
+import type { BlobSidecar, BlobTransaction } from "../../utils/eip4844";
+
+describe("EIP-4844 Blob Helpers", function () {
+  const sender = new Wallet("0x" + "44".repeat(32));
+
+  let sidecar: BlobSidecar;
+  let tx: BlobTransaction;
+
+  before(function () {
+    // Proving is slow in pure JS; the sidecar is computed once and cached by blob
+    this.timeout(60_000);
+    sidecar = computeBlobSidecar([encodeBlob("0x1234"), encodeBlob("0xabcdef")]);
+    tx = {
+      chainId: 20986n,
+      nonce: 7n,
+      maxPriorityFeePerGas: 1_000_000_000n,
+      maxFeePerGas: 30_000_000_000n,
+      gasLimit: 100_000n,
+      to: "0x000000000000000000000000000000000000dEaD",
+      value: 1n,
+      data: "0x3fa4f245",
+      accessList: [],
+      maxFeePerBlobGas: 10n,
+      blobVersionedHashes: sidecar.versionedHashes,
+    };
+  });
+
+  describe("Blob encoding and KZG", function () {
+    it("packs 31 data bytes per field element and rejects oversized data", function () {
+      const data = getBytes(keccak256("0x01") + keccak256("0x02").slice(2));
+      const blob = getBytes(encodeBlob(data));
+
+      expect(blob.length).to.equal(BYTES_PER_BLOB);
+      expect(blob[0]).to.equal(0);
+      expect(blob.slice(1, 32)).to.deep.equal(data.slice(0, 31));
+      expect(blob[32]).to.equal(0);
+      expect(blob.slice(33, 34)).to.deep.equal(data.slice(31, 32));
+      expect(() => encodeBlob(new Uint8Array(USABLE_BYTES_PER_BLOB + 1))).to.throw("Blob data too large");
+    });
+
+    it("derives versioned hashes from the commitments and verifies the proofs", function () {
+      sidecar.commitments.forEach((commitment, i) => {
+        expect(sidecar.versionedHashes[i]).to.equal("0x01" + sha256(commitment).slice(4));
+      });
+      expect(verifyBlobSidecar(sidecar)).to.equal(true);
+      expect(verifyBlobSidecar({ ...sidecar, proofs: [sidecar.proofs[1], sidecar.proofs[0]] })).to.equal(false);
+      expect(verifyBlobSidecar({ ...sidecar, versionedHashes: [sidecar.versionedHashes[1], sidecar.versionedHashes[0]] })).to.equal(false);
+    });
+  });
+
+  describe("Serialization against ethers", function () {
+    it("matches ethers for the unsigned payload, the signed payload and the network form", function () {
+      const ethersTx = Transaction.from({
+        type: 3,
+        chainId: tx.chainId,
+        nonce: Number(tx.nonce),
+        maxPriorityFeePerGas: tx.maxPriorityFeePerGas,
+        maxFeePerGas: tx.maxFeePerGas,
+        gasLimit: tx.gasLimit,
+        to: tx.to,
+        value: tx.value,
+        data: tx.data,
+        accessList: tx.accessList,
+        maxFeePerBlobGas: tx.maxFeePerBlobGas,
+        blobs: sidecar.blobs.map((data, i) => ({ data, commitment: sidecar.commitments[i], proof: sidecar.proofs[i] })),
+      });
+      expect(ethersTx.blobVersionedHashes).to.deep.equal(sidecar.versionedHashes);
+      expect(serializeBlobTransaction(tx)).to.equal(ethersTx.unsignedSerialized);
+
+      const { raw, hash } = signBlobTransaction(tx, sidecar, sender.signingKey);
+      ethersTx.signature = sender.signingKey.sign(ethersTx.unsignedHash);
+      expect(raw).to.equal(ethersTx.serialized);
+      expect(hash).to.equal(ethersTx.hash);
+      expect(recoverAddress(blobTransactionSigningHash(tx), ethersTx.signature)).to.equal(sender.address);
+    });
+
+    it("refuses to build an unsigned network form", function () {
+      expect(() => serializeBlobTransaction(tx, undefined, sidecar)).to.throw("must be signed");
+    });
+
+    it("encodes a null destination as an empty field, so the contract-creation form can be signed", function () {
+      const fields = decodeRlp("0x" + serializeBlobTransaction({ ...tx, to: null }).slice(4)) as string[];
+      expect(fields[5]).to.equal("0x");
+    });
+  });
+
+  describe("Blob gas accounting", function () {
+    it("computes the blob base fee and excess blob gas per fork schedule", function () {
+      const { cancun, prague } = BLOB_GAS_SCHEDULES;
+      // 1000 * e = 2718.28..., slightly less here since every Taylor term is truncated
+      expect(fakeExponential(1000n, 1n, 1n)).to.equal(2716n);
+      expect(blobBaseFee(0n, prague)).to.equal(1n);
+      expect(blobBaseFee(3_145_728n, prague)).to.equal(1n);
+      expect(blobBaseFee(3_538_944n, prague)).to.equal(2n);
+      expect(blobBaseFee(3_538_944n, cancun)).to.equal(2n);
+
+      const full = BigInt(prague.maxBlobsPerBlock) * GAS_PER_BLOB;
+      expect(nextExcessBlobGas(0n, full, prague)).to.equal(3n * GAS_PER_BLOB);
+      expect(nextExcessBlobGas(GAS_PER_BLOB, 0n, prague)).to.equal(0n);
+      expect(nextExcessBlobGas(0n, full, cancun)).to.equal(6n * GAS_PER_BLOB);
+    });
+  });
+});
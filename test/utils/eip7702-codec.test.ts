@@ -0,0 +1,150 @@
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import { encodeRlp, hashAuthorization, toBeHex, Wallet } from "ethers";
+import type { AuthorizationRequest, Signer } from "ethers";
+import {
+  assertAuthorization,
+  authorizationSigningHash,
+  authorizationTupleFromRlp,
+  authorizationTupleToRlp,
+  createAuthorization,
+  encodeAuthorizationMessage,
+  fromAuthorizationTuple,
+  recoverAuthority,
+  SECP256K1_N,
+  signAuthorizationTuple,
+  toAuthorizationTuple,
+  toRpcAuthorization,
+} from "../../utils/eip7702";
+import type { Authorization, AuthorizationTuple } from "../../utils/eip7702";
+
+describe("EIP-7702 Authorization Codec", function () {
+  // Fixed key so vectors are reproducible without a node
+  const wallet = new Wallet("0x" + "11".repeat(32));
+  const target = "0x000000000000000000000000000000000000dEaD";
+
+  let signed: Authorization;
+
+  before(async function () {
+    signed = await wallet.authorize({ address: target, nonce: 7n, chainId: 20986n });
+  });
+
+  describe("Encoding and hashing", function () {
+    it("RLP-encodes [chain_id, address, nonce] with minimal integers", function () {
+      const encoded = encodeAuthorizationMessage({ chainId: 1n, address: target, nonce: 0n });
+      // 0xd7 = list of 23 bytes: 0x01 (chain_id), 0x94 + 20-byte address, 0x80 (nonce 0)
+      expect(encoded).to.equal("0xd70194" + target.slice(2).toLowerCase() + "80");
+    });
+
+    it("Matches ethers' hashAuthorization for the signing hash", function () {
+      for (const request of [
+        { chainId: 0n, address: target, nonce: 0n },
+        { chainId: 20986n, address: target, nonce: 7n },
+        { chainId: 1n, address: target, nonce: (1n << 64n) - 1n },
+      ]) {
+        expect(authorizationSigningHash(request)).to.equal(hashAuthorization(request as AuthorizationRequest));
+      }
+    });
+
+    it("Rejects nonce >= 2^64 and chain_id outside uint256", function () {
+      expect(() => encodeAuthorizationMessage({ chainId: 1n, address: target, nonce: 1n << 64n })).to.throw("nonce");
+      expect(() => encodeAuthorizationMessage({ chainId: 1n << 256n, address: target, nonce: 0n })).to.throw("chain_id");
+    });
+  });
+
+  describe("Authority recovery", function () {
+    it("Recovers the signer of signer.authorize() output", function () {
+      expect(recoverAuthority(signed)).to.equal(wallet.address);
+      expect(recoverAuthority(toAuthorizationTuple(signed))).to.equal(wallet.address);
+    });
+
+    it("Recovers chain_id = 0 authorizations", async function () {
+      const anyChain = await wallet.authorize({ address: target, nonce: 0n, chainId: 0n });
+      expect(recoverAuthority(anyChain)).to.equal(wallet.address);
+    });
+
+    it("signAuthorizationTuple matches signer.authorize() for the same message", function () {
+      const tuple = signAuthorizationTuple({ chainId: 20986n, address: target, nonce: 7n }, wallet.signingKey);
+      expect(tuple).to.deep.equal(toAuthorizationTuple(signed));
+    });
+
+    it("Rejects the high-s twin of a valid signature", function () {
+      const tuple = toAuthorizationTuple(signed);
+      const highS: AuthorizationTuple = { ...tuple, s: SECP256K1_N - tuple.s, yParity: 1 - tuple.yParity };
+      expect(() => recoverAuthority(highS)).to.throw("high-s");
+    });
+
+    it("Rejects yParity outside {0, 1} and out-of-range r", function () {
+      const tuple = toAuthorizationTuple(signed);
+      expect(() => recoverAuthority({ ...tuple, yParity: 2 })).to.throw("yParity");
+      expect(() => recoverAuthority({ ...tuple, yParity: 27 })).to.throw("yParity");
+      expect(() => recoverAuthority({ ...tuple, r: 0n })).to.throw("r must be");
+      expect(() => recoverAuthority({ ...tuple, r: SECP256K1_N })).to.throw("r must be");
+    });
+
+    it("assertAuthorization reports the mismatching field", function () {
+      const expected = { chainId: 20986n, address: target, nonce: 7n, authority: wallet.address };
+      expect(() => assertAuthorization(signed, expected)).not.to.throw();
+      expect(() => assertAuthorization(signed, { ...expected, nonce: 8n })).to.throw("nonce mismatch");
+      expect(() => assertAuthorization(signed, { ...expected, authority: target })).to.throw("signer mismatch");
+    });
+  });
+
+  describe("Signed tuple RLP and RPC formats", function () {
+    it("Round-trips a signed tuple through RLP", function () {
+      const tuple = toAuthorizationTuple(signed);
+      const encoded = encodeRlp(authorizationTupleToRlp(tuple));
+      const decoded = authorizationTupleFromRlp(encoded);
+
+      expect(decoded).to.deep.equal({ ...tuple, address: target });
+      expect(fromAuthorizationTuple(decoded).signature.serialized).to.equal(signed.signature.serialized);
+    });
+
+    it("Rejects non-canonical integers when decoding", function () {
+      const fields = authorizationTupleToRlp(toAuthorizationTuple(signed)) as string[];
+      fields[2] = "0x0007"; // nonce with a leading zero byte
+      expect(() => authorizationTupleFromRlp(fields)).to.throw("leading zero");
+    });
+
+    it("Formats RPC entries as quantities without a guessed v", function () {
+      const rpc = toRpcAuthorization(signed);
+      expect(rpc).to.deep.equal({
+        chainId: "0x51fa",
+        address: target,
+        nonce: "0x7",
+        yParity: signed.signature.yParity === 0 ? "0x0" : "0x1",
+        r: "0x" + BigInt(signed.signature.r).toString(16),
+        s: "0x" + BigInt(signed.signature.s).toString(16),
+      });
+      expect(rpc).not.to.have.property("v");
+    });
+  });
+
+  describe("createAuthorization cross-check", function () {
+    let owner: Signer;
+
+    before(async function () {
+      [owner] = await ethers.getSigners();
+    });
+
+    it("Rejects a signer whose authorize() output does not match the request", async function () {
+      // Signer that silently signs a different nonce than requested
+      class SkewedWallet extends Wallet {
+        async authorize(request: AuthorizationRequest): Promise<Authorization> {
+          return super.authorize({ ...request, nonce: BigInt(request.nonce ?? 0) + 1n });
+        }
+      }
+      const skewed = new SkewedWallet(toBeHex(0x1234n, 32), ethers.provider);
+      await (await owner.sendTransaction({ to: skewed.address, value: 1n })).wait();
+
+      let error: unknown;
+      try {
+        await createAuthorization(skewed, target);
+      } catch (e) {
+        error = e;
+      }
+      expect(error).to.be.instanceOf(Error);
+      if (error instanceof Error) expect(error.message).to.contain("nonce mismatch");
+    });
+  });
+});
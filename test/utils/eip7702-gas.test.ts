@@ -0,0 +1,50 @@
+import { expect } from "chai";
+import {
+  calldataFloorGas,
+  calldataGas,
+  DEFAULT_EXECUTION_GAS,
+  estimateSetCodeGasLimit,
+  expectedGasUsed,
+  intrinsicGas,
+  minimumGasUsed,
+} from "../../utils/eip7702";
+
+describe("EIP-7702 Intrinsic Gas Model", function () {
+  const data = "0x" + "00".repeat(8) + "ff".repeat(24);
+
+  it("Prices calldata per EIP-2028 and the EIP-7623 floor", function () {
+    expect(calldataGas("0x")).to.equal(0n);
+    expect(calldataGas(data)).to.equal(8n * 4n + 24n * 16n);
+    // tokens = 8 + 4 * 24 = 104
+    expect(calldataFloorGas(data)).to.equal(21_000n + 1_040n);
+  });
+
+  it("Charges PER_EMPTY_ACCOUNT_COST per tuple and access list entries", function () {
+    expect(intrinsicGas({ data, authorizationCount: 0 })).to.equal(21_416n);
+    expect(intrinsicGas({ data, authorizationCount: 3 })).to.equal(21_416n + 75_000n);
+    expect(
+      intrinsicGas({
+        authorizationCount: 1,
+        accessList: [{ address: "0x0000000000000000000000000000000000000001", storageKeys: ["0x" + "00".repeat(32)] }],
+      })
+    ).to.equal(21_000n + 25_000n + 2_400n + 1_900n);
+  });
+
+  it("Caps the existing-authority refund at gas used / 5", function () {
+    // 46416 / 5 = 9283 < 12500
+    expect(expectedGasUsed({ data, authorizationCount: 1, existingAuthorities: 1 })).to.equal(46_416n - 9_283n);
+    // Execution gas raises the cap above the refund
+    expect(expectedGasUsed({ data, authorizationCount: 1, existingAuthorities: 1 }, 100_000n)).to.equal(146_416n - 12_500n);
+    expect(expectedGasUsed({ data, authorizationCount: 2, existingAuthorities: 0 })).to.equal(71_416n);
+  });
+
+  it("Never expects less than the calldata floor", function () {
+    expect(expectedGasUsed({ data, authorizationCount: 0 })).to.equal(calldataFloorGas(data));
+    expect(minimumGasUsed({ data, authorizationCount: 1 })).to.equal(46_416n - 9_283n);
+  });
+
+  it("Estimates the gas limit from intrinsic gas plus an execution allowance", function () {
+    expect(estimateSetCodeGasLimit({ data, authorizationCount: 20 })).to.equal(21_416n + 500_000n + DEFAULT_EXECUTION_GAS);
+    expect(estimateSetCodeGasLimit({ authorizationCount: 1 }, 0n)).to.equal(46_000n);
+  });
+});
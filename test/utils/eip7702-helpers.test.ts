@@ -0,0 +1,160 @@
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import { parseEther, verifyAuthorization, Wallet, ZeroAddress } from "ethers";
+import type { Signer } from "ethers";
+import { SimpleLogic } from "../../typechain-types";
+import {
+  createAuthorization,
+  createFundedWallet,
+  delegateTo,
+  delegationCode,
+  ensureDelegation,
+  resolveProvider,
+  sendType4Transaction,
+} from "../../utils/eip7702";
+
+describe("EIP-7702 Helper Library", function () {
+  let owner: Signer;
+  let simpleLogic: SimpleLogic;
+  let simpleLogicAddress: string;
+  let chainId: bigint;
+
+  before(async function () {
+    [owner] = await ethers.getSigners();
+    chainId = (await ethers.provider.getNetwork()).chainId;
+
+    const SimpleLogicFactory = await ethers.getContractFactory("SimpleLogic");
+    simpleLogic = await SimpleLogicFactory.deploy();
+    await simpleLogic.waitForDeployment();
+    simpleLogicAddress = await simpleLogic.getAddress();
+  });
+
+  describe("delegationCode / resolveProvider", function () {
+    it("Builds the lowercase 0xef0100 delegation marker", function () {
+      const address = "0xEb601f847D25aD6BDd9bFFaFbBb6B724C0B71a7d";
+      expect(delegationCode(address)).to.equal("0xef0100eb601f847d25ad6bdd9bffafbbb6b724c0b71a7d");
+    });
+
+    it("Prefers the injected provider and rejects a disconnected signer", function () {
+      const wallet = Wallet.createRandom();
+      expect(() => resolveProvider(wallet)).to.throw("No provider available");
+      expect(resolveProvider(wallet, { provider: ethers.provider })).to.equal(ethers.provider);
+    });
+  });
+
+  describe("createFundedWallet", function () {
+    it("Funds a fresh wallet connected to the funder's provider", async function () {
+      const wallet = await createFundedWallet(owner, "3");
+      expect(wallet.provider).to.equal(ethers.provider);
+      expect(await ethers.provider.getBalance(wallet.address)).to.equal(parseEther("3"));
+    });
+  });
+
+  describe("createAuthorization", function () {
+    it("Signs current nonce + 1 for self-sent transactions", async function () {
+      const wallet = await createFundedWallet(owner, "1");
+      const nonce = await ethers.provider.getTransactionCount(wallet.address);
+
+      const auth = await createAuthorization(wallet, simpleLogicAddress);
+
+      expect(auth.chainId).to.equal(chainId);
+      expect(auth.address).to.equal(simpleLogicAddress);
+      expect(auth.nonce).to.equal(BigInt(nonce + 1));
+      expect(verifyAuthorization(auth, auth.signature)).to.equal(wallet.address);
+    });
+
+    it("Signs the current nonce for sponsored transactions", async function () {
+      const wallet = await createFundedWallet(owner, "1");
+      const nonce = await ethers.provider.getTransactionCount(wallet.address);
+
+      const auth = await createAuthorization(wallet, simpleLogicAddress, { sponsored: true });
+
+      expect(auth.nonce).to.equal(BigInt(nonce));
+    });
+
+    it("Works with a disconnected signer when a provider is injected", async function () {
+      const wallet = await createFundedWallet(owner, "1");
+      const detached = new Wallet(wallet.privateKey);
+
+      const auth = await createAuthorization(detached, simpleLogicAddress, { provider: ethers.provider });
+
+      expect(auth.chainId).to.equal(chainId);
+      expect(verifyAuthorization(auth, auth.signature)).to.equal(wallet.address);
+    });
+  });
+
+  describe("sendType4Transaction / ensureDelegation / delegateTo", function () {
+    it("Delegates and calls through the EOA in one self-sent transaction", async function () {
+      const wallet = await createFundedWallet(owner, "1");
+      const auth = await createAuthorization(wallet, simpleLogicAddress);
+      const data = simpleLogic.interface.encodeFunctionData("setValue", [42]);
+
+      const receipt = await sendType4Transaction(wallet, wallet.address, data, [auth]);
+
+      expect(receipt.status).to.equal(1);
+      expect(receipt.type).to.equal(4);
+      expect((await ethers.provider.getCode(wallet.address)).toLowerCase()).to.equal(delegationCode(simpleLogicAddress));
+      expect(await (simpleLogic.attach(wallet.address) as SimpleLogic).getValue()).to.equal(42);
+    });
+
+    it("Delegates a sponsored authority with the sponsor paying gas", async function () {
+      const authority = await createFundedWallet(owner, "1");
+      const balanceBefore = await ethers.provider.getBalance(authority.address);
+      const auth = await createAuthorization(authority, simpleLogicAddress, { sponsored: true });
+
+      await sendType4Transaction(owner, authority.address, "0x", [auth]);
+
+      expect((await ethers.provider.getCode(authority.address)).toLowerCase()).to.equal(delegationCode(simpleLogicAddress));
+      expect(await ethers.provider.getBalance(authority.address)).to.equal(balanceBefore);
+    });
+
+    it("ensureDelegation only sends a transaction when the marker differs", async function () {
+      const wallet = await createFundedWallet(owner, "1");
+
+      await ensureDelegation(wallet, simpleLogicAddress, { label: "fresh -> SimpleLogic" });
+      const nonceAfterFirst = await ethers.provider.getTransactionCount(wallet.address);
+      await ensureDelegation(wallet, simpleLogicAddress, { label: "fresh -> SimpleLogic (again)" });
+
+      expect(await ethers.provider.getTransactionCount(wallet.address)).to.equal(nonceAfterFirst);
+      expect((await ethers.provider.getCode(wallet.address)).toLowerCase()).to.equal(delegationCode(simpleLogicAddress));
+    });
+
+    it("Returns the receipt of a reverted transaction instead of sending another", async function () {
+      const RevertTestFactory = await ethers.getContractFactory("RevertTest");
+      const revertTest = await RevertTestFactory.deploy();
+      await revertTest.waitForDeployment();
+      const wallet = await createFundedWallet(owner, "1");
+      const nonceBefore = await ethers.provider.getTransactionCount(wallet.address);
+      const auth = await createAuthorization(wallet, await revertTest.getAddress());
+
+      const receipt = await sendType4Transaction(wallet, wallet.address, revertTest.interface.encodeFunctionData("failingOperation"), [auth]);
+
+      expect(receipt.status).to.equal(0);
+      // One transaction only: the sender nonce and the authorization nonce
+      expect(await ethers.provider.getTransactionCount(wallet.address)).to.equal(nonceBefore + 2);
+    });
+
+    it("Clears the delegation when authorizing the zero address", async function () {
+      const wallet = await createFundedWallet(owner, "1");
+      await ensureDelegation(wallet, simpleLogicAddress);
+
+      const auth = await createAuthorization(wallet, ZeroAddress);
+      await sendType4Transaction(wallet, wallet.address, "0x", [auth]);
+
+      expect(await ethers.provider.getCode(wallet.address)).to.equal("0x");
+    });
+
+    it("delegateTo sends a delegation-only transaction, from the authority or a sponsor", async function () {
+      const wallet = await createFundedWallet(owner, "1");
+      const receipt = await delegateTo(wallet, simpleLogicAddress);
+      expect(receipt.from).to.equal(wallet.address);
+      expect(receipt.to).to.not.equal(wallet.address);
+      expect((await ethers.provider.getCode(wallet.address)).toLowerCase()).to.equal(delegationCode(simpleLogicAddress));
+
+      const unfunded = Wallet.createRandom().connect(ethers.provider);
+      const sponsored = await delegateTo(unfunded, simpleLogicAddress, { sponsor: owner });
+      expect(sponsored.from).to.equal(await owner.getAddress());
+      expect((await ethers.provider.getCode(unfunded.address)).toLowerCase()).to.equal(delegationCode(simpleLogicAddress));
+    });
+  });
+});
@@ -0,0 +1,147 @@
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import { Transaction, Wallet } from "ethers";
+import type { Signer } from "ethers";
+import { SimpleLogic } from "../../typechain-types";
+import {
+  createAuthorization,
+  createFundedWallet,
+  decodeSetCodeTransaction,
+  delegationCode,
+  SECP256K1_N,
+  sendRawSetCodeTransaction,
+  serializeSetCodeTransaction,
+  signSetCodeTransaction,
+  toAuthorizationTuple,
+} from "../../utils/eip7702";
+import type { Authorization, SetCodeTransaction } from "../../utils/eip7702";
+
+describe("EIP-7702 Raw SetCode Transaction", function () {
+  const sender = new Wallet("0x" + "22".repeat(32));
+  const authority = new Wallet("0x" + "33".repeat(32));
+  const target = "0x000000000000000000000000000000000000dEaD";
+
+  let auth: Authorization;
+  let tx: SetCodeTransaction;
+
+  before(async function () {
+    auth = await authority.authorize({ address: target, nonce: 3n, chainId: 20986n });
+    tx = {
+      chainId: 20986n,
+      nonce: 5n,
+      maxPriorityFeePerGas: 1_000_000_000n,
+      maxFeePerGas: 30_000_000_000n,
+      gasLimit: 120_000n,
+      to: authority.address,
+      value: 0n,
+      data: "0x3fa4f245",
+      accessList: [{ address: target, storageKeys: ["0x" + "00".repeat(31) + "01"] }],
+      authorizationList: [toAuthorizationTuple(auth)],
+    };
+  });
+
+  // Same payload expressed through ethers' own Transaction class
+  function toEthersTransaction(payload: SetCodeTransaction): Transaction {
+    return Transaction.from({
+      type: 4,
+      chainId: payload.chainId,
+      nonce: Number(payload.nonce),
+      maxPriorityFeePerGas: payload.maxPriorityFeePerGas,
+      maxFeePerGas: payload.maxFeePerGas,
+      gasLimit: payload.gasLimit,
+      to: payload.to,
+      value: payload.value,
+      data: payload.data,
+      accessList: payload.accessList,
+      authorizationList: [auth],
+    });
+  }
+
+  describe("Serialization round-trips against ethers", function () {
+    it("Unsigned payload matches ethers' unsignedSerialized", function () {
+      expect(serializeSetCodeTransaction(tx)).to.equal(toEthersTransaction(tx).unsignedSerialized);
+    });
+
+    it("Signed bytes match ethers' signTransaction output", async function () {
+      const ours = signSetCodeTransaction(tx, sender.signingKey);
+      const theirs = await sender.signTransaction(toEthersTransaction(tx));
+      expect(ours).to.equal(theirs);
+    });
+
+    it("Decodes ethers-serialized bytes back into the same fields", async function () {
+      const raw = await sender.signTransaction(toEthersTransaction(tx));
+      const decoded = decodeSetCodeTransaction(raw);
+      const parsed = Transaction.from(raw);
+
+      expect(decoded.from).to.equal(sender.address);
+      expect(decoded.hash).to.equal(parsed.hash);
+      expect(decoded.nonce).to.equal(tx.nonce);
+      expect(decoded.gasLimit).to.equal(tx.gasLimit);
+      expect(decoded.to).to.equal(tx.to);
+      expect(decoded.data).to.equal(tx.data);
+      expect(decoded.accessList).to.deep.equal(tx.accessList);
+      expect(decoded.authorizationList).to.deep.equal(tx.authorizationList);
+      expect(decoded.r).to.equal(BigInt(parsed.signature!.r));
+      expect(decoded.s).to.equal(BigInt(parsed.signature!.s));
+    });
+
+    it("Keeps malformed authorization tuples intact on the wire", function () {
+      const tuple = toAuthorizationTuple(auth);
+      const malformed = { ...tuple, s: SECP256K1_N - tuple.s, yParity: 2 };
+      const raw = signSetCodeTransaction({ ...tx, authorizationList: [malformed] }, sender.signingKey);
+
+      expect(decodeSetCodeTransaction(raw).authorizationList).to.deep.equal([{ ...malformed, address: target }]);
+    });
+
+    it("Rejects other transaction types", async function () {
+      const raw = await sender.signTransaction({ type: 2, chainId: 1n, nonce: 0, gasLimit: 21000n, maxFeePerGas: 1n, maxPriorityFeePerGas: 1n, to: target });
+      expect(() => decodeSetCodeTransaction(raw)).to.throw("Not a SetCode transaction");
+    });
+  });
+
+  describe("eth_sendRawTransaction path", function () {
+    let owner: Signer;
+    let simpleLogic: SimpleLogic;
+    let simpleLogicAddress: string;
+
+    before(async function () {
+      [owner] = await ethers.getSigners();
+      const SimpleLogicFactory = await ethers.getContractFactory("SimpleLogic");
+      simpleLogic = await SimpleLogicFactory.deploy();
+      await simpleLogic.waitForDeployment();
+      simpleLogicAddress = await simpleLogic.getAddress();
+    });
+
+    it("Delegates and calls through a self-sent raw transaction", async function () {
+      const wallet = await createFundedWallet(owner, "1");
+      const selfAuth = await createAuthorization(wallet, simpleLogicAddress);
+
+      const receipt = await sendRawSetCodeTransaction(wallet, {
+        to: wallet.address,
+        data: simpleLogic.interface.encodeFunctionData("setValue", [77]),
+        authorizationList: [selfAuth],
+      });
+
+      expect(receipt.status).to.equal(1);
+      expect(receipt.type).to.equal(4);
+      expect((await ethers.provider.getCode(wallet.address)).toLowerCase()).to.equal(delegationCode(simpleLogicAddress));
+      expect(await (simpleLogic.attach(wallet.address) as SimpleLogic).getValue()).to.equal(77);
+    });
+
+    it("Relays a sponsored authorization from a different sender", async function () {
+      const relayer = await createFundedWallet(owner, "1");
+      const delegator = await createFundedWallet(owner, "1");
+      const sponsoredAuth = await createAuthorization(delegator, simpleLogicAddress, { sponsored: true });
+
+      const receipt = await sendRawSetCodeTransaction(relayer, {
+        to: delegator.address,
+        authorizationList: [sponsoredAuth],
+      });
+      const mined = await ethers.provider.getTransaction(receipt.hash);
+
+      expect(mined?.from).to.equal(relayer.address);
+      expect(mined?.authorizationList?.length).to.equal(1);
+      expect((await ethers.provider.getCode(delegator.address)).toLowerCase()).to.equal(delegationCode(simpleLogicAddress));
+    });
+  });
+});
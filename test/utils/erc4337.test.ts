@@ -0,0 +1,65 @@
+import { expect } from "chai";
+import { dataSlice, getBytes, recoverAddress, Wallet } from "ethers";
+import { getUserOperationHash, packUint128Pair, packUserOperation, signUserOperation } from "../../utils/erc4337";
+import type { UserOperation } from "../../utils/erc4337";
+
+describe("ERC-4337 UserOperation Helpers", function () {
+  const entryPoint = "0x4337084D9E255Ff0702461CF8895CE9E3b5Ff108";
+  const paymaster = "0x00000000000000000000000000000000000000AA";
+
+  function operation(overrides: Partial<UserOperation> = {}): UserOperation {
+    return {
+      sender: "0x0000000000000000000000000000000000007702",
+      nonce: 5n,
+      callData: "0xb61d27f6",
+      callGasLimit: 200_000n,
+      verificationGasLimit: 150_000n,
+      preVerificationGas: 50_000n,
+      maxFeePerGas: 3_000_000_000n,
+      maxPriorityFeePerGas: 1_000_000_000n,
+      signature: "0x",
+      ...overrides,
+    };
+  }
+
+  it("Packs gas limits and fees as two 128-bit halves, high first", function () {
+    const packed = packUserOperation(operation());
+
+    expect(packed.accountGasLimits).to.equal(packUint128Pair(150_000n, 200_000n));
+    expect(BigInt(dataSlice(packed.accountGasLimits, 0, 16))).to.equal(150_000n);
+    expect(BigInt(dataSlice(packed.accountGasLimits, 16))).to.equal(200_000n);
+    expect(BigInt(dataSlice(packed.gasFees, 0, 16))).to.equal(1_000_000_000n);
+    expect(BigInt(dataSlice(packed.gasFees, 16))).to.equal(3_000_000_000n);
+    expect(packed.initCode).to.equal("0x");
+    expect(packed.paymasterAndData).to.equal("0x");
+    expect(() => packUint128Pair(1n << 128n, 0n)).to.throw("does not fit in 128 bits");
+  });
+
+  it("Lays out paymasterAndData as address, verification gas, postOp gas, data", function () {
+    const packed = packUserOperation(
+      operation({ paymaster, paymasterVerificationGasLimit: 100_000n, paymasterPostOpGasLimit: 7n, paymasterData: "0xbeef" })
+    );
+
+    expect(getBytes(packed.paymasterAndData)).to.have.length(20 + 16 + 16 + 2);
+    expect(dataSlice(packed.paymasterAndData, 0, 20)).to.equal(paymaster.toLowerCase());
+    expect(BigInt(dataSlice(packed.paymasterAndData, 20, 36))).to.equal(100_000n);
+    expect(BigInt(dataSlice(packed.paymasterAndData, 36, 52))).to.equal(7n);
+    expect(dataSlice(packed.paymasterAndData, 52)).to.equal("0xbeef");
+  });
+
+  it("Binds the hash to the EntryPoint and chain, not to the signature", function () {
+    const hash = getUserOperationHash(operation(), entryPoint, 1n);
+
+    expect(getUserOperationHash(operation({ signature: "0x1234" }), entryPoint, 1n)).to.equal(hash);
+    expect(getUserOperationHash(operation(), entryPoint, 2n)).to.not.equal(hash);
+    expect(getUserOperationHash(operation(), paymaster, 1n)).to.not.equal(hash);
+    expect(getUserOperationHash(operation({ nonce: 6n }), entryPoint, 1n)).to.not.equal(hash);
+  });
+
+  it("Signs the raw hash with the account key", function () {
+    const wallet = Wallet.createRandom();
+    const signed = signUserOperation(operation({ sender: wallet.address }), wallet.signingKey, entryPoint, 1n);
+
+    expect(recoverAddress(getUserOperationHash(signed, entryPoint, 1n), signed.signature)).to.equal(wallet.address);
+  });
+});
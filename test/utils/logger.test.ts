@@ -0,0 +1,78 @@
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { expect } from "chai";
+import { ConsoleSink, createLogger, JsonLinesSink, TestLogger } from "../../utils/logger";
+import type { LogEvent, LoggedReceipt, LogLevel } from "../../utils/logger";
+
+describe("Structured Test Logger", function () {
+  const account = "0x562c2C2AF81D98fe446a289f804c5aD7Ca6a9260";
+  const receipt: LoggedReceipt = {
+    hash: "0x79cf614076e6d1090aa036dc7ec7dd56bfa7e3512b95689925aabd1acc92cdaa",
+    blockNumber: 73679,
+    gasUsed: 45270n,
+    status: 1,
+    type: 4,
+    from: account,
+    to: account,
+  };
+
+  function consoleOutput(level: LogLevel): string[] {
+    const lines: string[] = [];
+    const logger = new TestLogger([new ConsoleSink(level, (line) => lines.push(line))]);
+    logger.section("Test Purpose");
+    logger.detail("Current nonce", 3);
+    logger.note("Read value", 12345);
+    logger.authorizationCreated({ authority: account, delegate: account, chainId: 20986n, nonce: 4, sponsored: false });
+    logger.receipt("setValue(12345)", receipt);
+    logger.warn("falling back to eth_sendRawTransaction");
+    return lines.filter(Boolean);
+  }
+
+  it("Filters console output by level", function () {
+    expect(consoleOutput("quiet")).to.deep.equal(["    ⚠️  falling back to eth_sendRawTransaction"]);
+    expect(consoleOutput("normal")).to.deep.equal([
+      "    【Test Purpose】",
+      "    Read value: 12345",
+      `    ✓ setValue(12345): block 73679, gas 45270, type 4, status 1 (${receipt.hash})`,
+      "    ⚠️  falling back to eth_sendRawTransaction",
+    ]);
+    expect(consoleOutput("verbose")).to.have.length(6);
+  });
+
+  it("Stamps events with the running suite and test", function () {
+    const events: LogEvent[] = [];
+    const logger = new TestLogger([{ write: (event) => events.push(event) }]);
+    logger.enterSuite("EIP-7702");
+    logger.enterSuite("EIP-7702 A. Core");
+    logger.info("in hook");
+    logger.startTest("EIP-7702 A. Core A1. Test");
+    const matches = logger.codeChecked(receipt.from, "0xEF0100AA", "0xef0100aa");
+
+    expect(matches).to.equal(true);
+    expect(events[0].context).to.deep.equal({ suite: "EIP-7702", scope: "EIP-7702 A. Core" });
+    expect(events[1]).to.deep.include({ type: "code-checked", code: "0xef0100aa", matches: true });
+    expect(events[1].context.test).to.equal("EIP-7702 A. Core A1. Test");
+  });
+
+  it("Writes every event as one JSON line", function () {
+    const file = path.join(fs.mkdtempSync(path.join(os.tmpdir(), "eip-log-")), "events.jsonl");
+    const logger = new TestLogger([new JsonLinesSink(file)]);
+    logger.detail("verbose only", "still written");
+    logger.receipt("setValue(12345)", receipt);
+
+    const events = fs.readFileSync(file, "utf8").trim().split("\n").map((line) => JSON.parse(line));
+    expect(events.map((event) => event.type)).to.deep.equal(["detail", "receipt-confirmed"]);
+    expect(events[1]).to.include({ gasUsed: "45270", blockNumber: 73679, txType: 4 });
+    fs.rmSync(path.dirname(file), { recursive: true, force: true });
+  });
+
+  it("Reads level and JSON-lines file from the environment", function () {
+    const file = path.join(fs.mkdtempSync(path.join(os.tmpdir(), "eip-log-")), "events.jsonl");
+    const logger = createLogger({ EIP_LOG_LEVEL: "quiet", EIP_LOG_FILE: file } as NodeJS.ProcessEnv);
+    logger.info("hidden on the console");
+
+    expect(fs.readFileSync(file, "utf8")).to.contain('"text":"hidden on the console"');
+    fs.rmSync(path.dirname(file), { recursive: true, force: true });
+  });
+});
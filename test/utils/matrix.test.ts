@@ -0,0 +1,93 @@
+import { expect } from "chai";
+import { parseMatrixEntries, renderMatrixComparison, summarizeRun } from "../../utils/matrix";
+import type { MatrixRun } from "../../utils/matrix";
+import type { SuiteReport } from "../../utils/report";
+
+describe("Multi-Network Matrix", function () {
+  function suiteReport(passed: number, failed: number, pending: number, skipReason?: string): SuiteReport {
+    const tests = [
+      ...Array.from({ length: passed }, (_, i) => ({ state: "passed" as const, id: `A${i + 1}` })),
+      ...Array.from({ length: failed }, (_, i) => ({ state: "failed" as const, id: `C${i + 1}`, error: "execution reverted" })),
+      ...Array.from({ length: pending }, (_, i) => ({ state: "pending" as const, id: `D${i + 1}` })),
+    ];
+    return {
+      slug: "eip7702",
+      title: "EIP-7702 Complete Test Suite",
+      file: "test/eip7702.test.ts",
+      generatedAt: "2026-01-01T00:00:00.000Z",
+      environment: { network: "hardhat", chainId: "20986", accounts: {} },
+      dimensions: [
+        {
+          title: "A. Core Functionality Test: Code Delegation",
+          tests: tests.map((test) => ({
+            ...test,
+            title: `${test.id}. Test Something`,
+            fullTitle: `EIP-7702 Complete Test Suite ${test.id}`,
+            durationMs: 1,
+            records: [],
+          })),
+        },
+      ],
+      totals: { passed, failed, pending },
+      ...(skipReason ? { skipReason } : {}),
+    };
+  }
+
+  function run(label: string, reports: SuiteReport[], error?: string): MatrixRun {
+    return {
+      entry: parseMatrixEntries(label)[0],
+      reports,
+      exitCode: error ? 1 : 0,
+      ...(error ? { error } : {}),
+    };
+  }
+
+  describe("parseMatrixEntries", function () {
+    it("parses configured networks, pinned hardforks and local nodes", function () {
+      expect(parseMatrixEntries(" hardhat, hardhat@cancun ,node@prague,devnet")).to.deep.equal([
+        { label: "hardhat", network: "hardhat", startsNode: false },
+        { label: "hardhat@cancun", network: "hardhat", hardfork: "cancun", startsNode: false },
+        { label: "node@prague", network: "localhost", hardfork: "prague", startsNode: true },
+        { label: "devnet", network: "devnet", startsNode: false },
+      ]);
+    });
+
+    it("rejects hardforks on remote networks and malformed entries", function () {
+      expect(() => parseMatrixEntries("devnet@cancun")).to.throw(/only "hardhat" and "node"/);
+      expect(() => parseMatrixEntries("hardhat@")).to.throw(/Invalid matrix entry/);
+      expect(() => parseMatrixEntries("hardhat@cancun@prague")).to.throw(/Invalid matrix entry/);
+    });
+  });
+
+  describe("renderMatrixComparison", function () {
+    it("renders one row per entry, labelled with the matrix entry", function () {
+      const markdown = renderMatrixComparison([
+        run("hardhat", [suiteReport(10, 0, 0)]),
+        run("hardhat@cancun", [suiteReport(0, 0, 10, "tx-type-4 (Type 0x04 (EIP-7702), prague)")]),
+        run("node@prague", [suiteReport(8, 2, 0)]),
+      ]);
+
+      expect(markdown).to.include("## EIP-7702");
+      expect(markdown).to.include("| `hardhat` | `20986` | ✅ **10/10 Passed** | N/A | Full |");
+      expect(markdown).to.include("| `hardhat@cancun` | `20986` | ⏭️ **0/10 Skipped** | tx-type-4 (Type 0x04 (EIP-7702), prague) | None |");
+      expect(markdown).to.include("| `node@prague` | `20986` | ❌ **8/10 Passed** | execution reverted | Partial |");
+    });
+
+    it("reports entries that produced no report with their error", function () {
+      const markdown = renderMatrixComparison([
+        run("hardhat", [suiteReport(10, 0, 0)]),
+        run("devnet", [], "Error HH108: Cannot connect to the network devnet"),
+      ]);
+
+      expect(markdown).to.include("| `devnet` | N/A | ❌ **Run failed** | Error HH108: Cannot connect to the network devnet | None |");
+    });
+  });
+
+  it("summarizeRun adds up the totals of every suite", function () {
+    expect(summarizeRun(run("hardhat", [suiteReport(3, 1, 0), suiteReport(0, 0, 4)]))).to.deep.equal({
+      passed: 3,
+      failed: 1,
+      pending: 4,
+    });
+  });
+});
@@ -0,0 +1,148 @@
+import { expect } from "chai";
+import path from "path";
+import {
+  primaryFailureReason,
+  renderJUnitReport,
+  renderMarkdownReport,
+  reportRecorder,
+  reportSlug,
+  supportLevel,
+} from "../../utils/report";
+import { TestLogger } from "../../utils/logger";
+import type { SuiteReport, TestResult } from "../../utils/report";
+
+describe("EIP Test Report Generator", function () {
+  function testResult(id: string, state: TestResult["state"], error?: string): TestResult {
+    return {
+      id,
+      title: `${id}. Test Something ${id}`,
+      fullTitle: `EIP-7702 Complete Test Suite ${id}`,
+      state,
+      durationMs: 12,
+      ...(error ? { error } : {}),
+      records: [],
+    };
+  }
+
+  function sampleReport(overrides: Partial<SuiteReport> = {}): SuiteReport {
+    return {
+      slug: "eip7702",
+      title: "EIP-7702 Complete Test Suite",
+      file: "test/eip7702.test.ts",
+      generatedAt: "2026-01-01T00:00:00.000Z",
+      environment: { network: "myNet", chainId: "20986", accounts: { Owner: "0x873C36f9Fd02e0C57a393aFE80D14f244fE04378" } },
+      dimensions: [
+        {
+          title: "A. Core Functionality Test: Code Delegation",
+          tests: [
+            {
+              ...testResult("A1", "passed"),
+              records: [
+                {
+                  kind: "transaction",
+                  label: "setValue(12345) via delegated EOA",
+                  hash: "0x79cf614076e6d1090aa036dc7ec7dd56bfa7e3512b95689925aabd1acc92cdaa",
+                  blockNumber: 73679,
+                  gasUsed: "45270",
+                  status: 1,
+                  type: 2,
+                  from: "0x562c2C2AF81D98fe446a289f804c5aD7Ca6a9260",
+                  to: "0xEb601f847D25aD6BDd9bFFaFbBb6B724C0B71a7d",
+                },
+                { kind: "note", label: "Read value", value: "12345" },
+              ],
+            },
+            testResult("A2", "passed"),
+            testResult("A3", "passed"),
+          ],
+        },
+        { title: "C. Boundary and Security Tests", tests: [testResult("C1", "passed"), testResult("C4", "passed")] },
+      ],
+      totals: { passed: 5, failed: 0, pending: 0 },
+      ...overrides,
+    };
+  }
+
+  describe("Markdown", function () {
+    it("Renders the report layout with tx hash, block and gas per test", function () {
+      const markdown = renderMarkdownReport(sampleReport());
+
+      expect(markdown).to.match(/^# EIP-7702 Test Report\n/);
+      expect(markdown).to.contain("| `myNet` | `20986` | ✅ **5/5 Passed** | N/A | Full |");
+      expect(markdown).to.contain("- Owner: `0x873C36f9Fd02e0C57a393aFE80D14f244fE04378`");
+      expect(markdown).to.contain("| A. Core Functionality Test: Code Delegation | A1–A3 | Something A1, Something A2, Something A3 | ✅ Passed |");
+      expect(markdown).to.contain("| C. Boundary and Security Tests | C1, C4 |");
+      expect(markdown).to.contain("Transaction hash: 0x79cf614076e6d1090aa036dc7ec7dd56bfa7e3512b95689925aabd1acc92cdaa");
+      expect(markdown).to.contain("Block number: 73679");
+      expect(markdown).to.contain("Gas used: 45270");
+      expect(markdown).to.contain("Read value: 12345");
+      expect(markdown).to.contain("- [x] C. Boundary and Security Tests (C1, C4): ✅ Passed");
+    });
+
+    it("Summarizes failures by their most frequent first line", function () {
+      const report = sampleReport({
+        dimensions: [
+          {
+            title: "A. Core",
+            tests: [
+              testResult("A1", "failed", "transaction type not supported\nstack"),
+              testResult("A2", "failed", "transaction type not supported"),
+              testResult("A3", "failed", "insufficient funds"),
+            ],
+          },
+        ],
+        totals: { passed: 0, failed: 3, pending: 0 },
+      });
+
+      expect(primaryFailureReason(report)).to.equal("transaction type not supported");
+      expect(supportLevel(report)).to.equal("None");
+      expect(renderMarkdownReport(report)).to.contain("| `myNet` | `20986` | ❌ **0/3 Passed** | transaction type not supported | None |");
+    });
+  });
+
+  describe("JUnit XML", function () {
+    it("Escapes XML and marks skipped suites with the node's reason", function () {
+      const report = sampleReport({
+        dimensions: [{ title: "A. <Core>", tests: [testResult("A1", "pending"), testResult("A2", "failed", 'bad "quote" & <tag>')] }],
+        totals: { passed: 0, failed: 1, pending: 1 },
+        skipReason: "Type 0x04 (EIP-7702): unsupported",
+      });
+      const xml = renderJUnitReport([report]);
+
+      expect(xml).to.contain('<testsuites name="EIP tests" tests="2" failures="1" skipped="1">');
+      expect(xml).to.contain('classname="EIP-7702 Complete Test Suite.A. &lt;Core&gt;"');
+      expect(xml).to.contain('<skipped message="unsupported by node: Type 0x04 (EIP-7702): unsupported"/>');
+      expect(xml).to.contain('<failure message="bad &quot;quote&quot; &amp; &lt;tag&gt;">');
+    });
+  });
+
+  describe("Recorder", function () {
+    it("Files logged records under the running test, or the innermost suite in hooks", function () {
+      const logger = new TestLogger([reportRecorder]);
+      logger.enterSuite("scope-suite");
+      logger.environment({ network: "hardhat", chainId: "20986", accounts: {} });
+      logger.startTest("scope-suite test");
+      logger.note("inside", 1);
+      logger.info("narration is not recorded");
+      logger.endTest("some skipped test");
+      logger.note("still inside", 2);
+      logger.endTest("scope-suite test");
+      logger.suiteSkipped("suite level");
+      logger.leaveSuite("scope-suite");
+
+      expect(reportRecorder.recordsFor("scope-suite test").map((r) => (r.kind === "note" ? r.label : ""))).to.deep.equal(["inside", "still inside"]);
+      expect(reportRecorder.recordsFor("scope-suite")).to.deep.equal([{ kind: "skip", reason: "suite level" }]);
+      expect(reportRecorder.environmentFor("scope-suite")?.chainId).to.equal("20986");
+    });
+  });
+
+  describe("File names", function () {
+    it("Names reports after the spec path, so specs sharing a basename do not collide", function () {
+      const tests = path.join("/repo", "test");
+      expect(reportSlug(path.join(tests, "eip4844.test.ts"), "EIP-4844", tests)).to.equal("eip4844");
+      expect(reportSlug(path.join(tests, "utils", "eip4844.test.ts"), "EIP-4844 Helpers", tests)).to.equal("utils-eip4844");
+      expect(reportSlug(path.join("/elsewhere", "probe.ts"), "Probe", tests)).to.equal("probe");
+      expect(reportSlug(undefined, "Loose Suite", tests)).to.equal("Loose Suite");
+    });
+  });
+});
@@ -0,0 +1,109 @@
+import { expect } from "chai";
+import fs from "fs";
+import path from "path";
+import { network } from "hardhat";
+import type { NetworkCapabilities } from "../../utils/capabilities";
+import {
+  compareHardforks,
+  configuredHardfork,
+  defaultLocalHardfork,
+  getSuite,
+  isHardfork,
+  latestHardfork,
+  suiteCompilerOverrides,
+  suiteContractsDir,
+  suiteSkipReason,
+  SUITES,
+  suiteTestFile,
+} from "../../utils/suites";
+import type { SuiteId } from "../../utils/suites";
+
+describe("Suite Requirements", function () {
+  const root = path.join(__dirname, "..", "..");
+
+  describe("hardforks", function () {
+    it("orders the known hardforks and rejects unknown names", function () {
+      expect(compareHardforks("cancun", "prague")).to.be.lt(0);
+      expect(compareHardforks("prague", "shanghai")).to.be.gt(0);
+      expect(compareHardforks("cancun", "cancun")).to.equal(0);
+      expect(latestHardfork(["cancun", "prague", "london"])).to.equal("prague");
+      expect(() => latestHardfork([])).to.throw(/at least one hardfork/);
+
+      expect(isHardfork("cancun")).to.equal(true);
+      expect(isHardfork("osaka")).to.equal(false);
+      expect(isHardfork(undefined)).to.equal(false);
+    });
+  });
+
+  describe("registry", function () {
+    it("registers every EIP suite in test/, with its contracts directory", function () {
+      const files = fs.readdirSync(path.join(root, "test")).filter((file) => /^eip\d+\.test\.ts$/.test(file));
+      expect(SUITES.map((suite) => path.basename(suiteTestFile(suite))).sort()).to.deep.equal(files.sort());
+
+      for (const suite of SUITES) {
+        expect(fs.existsSync(path.join(root, suiteContractsDir(suite))), suiteContractsDir(suite)).to.equal(true);
+        // Each suite gates itself on its own entry
+        const source = fs.readFileSync(path.join(root, suiteTestFile(suite)), "utf8");
+        expect(source, suiteTestFile(suite)).to.contain(`"${suite.id}");`);
+      }
+      expect(() => getSuite("eip9999" as SuiteId)).to.throw(/Unknown suite "eip9999"/);
+    });
+
+    it("runs the in-process network on the newest hardfork any suite needs", function () {
+      expect(defaultLocalHardfork()).to.equal("prague");
+      if (!process.env.HARDHAT_HARDFORK) {
+        expect(configuredHardfork(network.config)).to.equal(defaultLocalHardfork());
+      }
+      expect(configuredHardfork({ url: "http://127.0.0.1:8545" })).to.equal(undefined);
+    });
+  });
+
+  describe("suiteCompilerOverrides", function () {
+    const base = { version: "0.8.28", settings: { viaIR: true, evmVersion: "cancun" } };
+
+    it("compiles the contracts of later-fork suites for their hardfork", function () {
+      const overrides = suiteCompilerOverrides(root, base);
+
+      expect(overrides["contracts/eip7702/SimpleLogic.sol"]).to.deep.equal({
+        version: "0.8.28",
+        settings: { viaIR: true, evmVersion: "prague" },
+      });
+      expect(overrides["contracts/eip2935/HistoryReader.sol"].settings.evmVersion).to.equal("prague");
+      // Cancun suites already match the base compiler
+      expect(overrides).to.not.have.property("contracts/eip1153/TransientStore.sol");
+    });
+
+    it("overrides every suite when the base compiler targets an older fork", function () {
+      const overrides = suiteCompilerOverrides(root, { ...base, settings: { ...base.settings, evmVersion: "shanghai" } });
+      expect(overrides["contracts/eip1153/TransientStore.sol"].settings.evmVersion).to.equal("cancun");
+      expect(overrides["contracts/eip7702/SimpleLogic.sol"].settings.evmVersion).to.equal("prague");
+    });
+  });
+
+  describe("suiteSkipReason", function () {
+    const capabilities: NetworkCapabilities = {
+      network: "devnet",
+      chainId: 551n,
+      results: [
+        { id: "opcode-tstore-tload", category: "opcode", name: "TSTORE/TLOAD (EIP-1153)", fork: "cancun", status: "supported" },
+        { id: "tx-type-3", category: "transaction", name: "Type 0x03 (EIP-4844)", fork: "cancun", status: "unsupported", detail: "no blob gas fields" },
+      ],
+    };
+
+    it("skips on a configured hardfork older than the suite's without probing", function () {
+      expect(suiteSkipReason(getSuite("eip7702"), { network: "hardhat", hardfork: "cancun" })).to.equal(
+        "requires prague (EIP-7702); hardhat runs cancun"
+      );
+      expect(suiteSkipReason(getSuite("eip1153"), { network: "hardhat", hardfork: "cancun" })).to.equal(undefined);
+    });
+
+    it("falls back to the probed capabilities", function () {
+      expect(suiteSkipReason(getSuite("eip1153"), { network: "devnet" }, capabilities)).to.equal(undefined);
+      expect(suiteSkipReason(getSuite("eip4844"), { network: "devnet" }, capabilities)).to.equal(
+        "requires cancun (EIP-4844, EIP-7516): Type 0x03 (EIP-4844): unsupported (no blob gas fields); opcode-blobhash: not probed; opcode-blobbasefee: not probed"
+      );
+      // A hardfork this repository does not know cannot be compared, so the probe decides
+      expect(suiteSkipReason(getSuite("eip1153"), { network: "hardhat", hardfork: "osaka" }, capabilities)).to.equal(undefined);
+    });
+  });
+});
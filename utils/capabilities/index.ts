@@ -0,0 +1,4 @@
+export * from "./types";
+export * from "./probe";
+export * from "./matrix";
+export * from "./suite";
@@ -0,0 +1,37 @@
+import type { CapabilityId, CapabilityStatus, NetworkCapabilities } from "./types";
+
+const STATUS_LABEL: Record<CapabilityStatus, string> = {
+  supported: "✅ supported",
+  unsupported: "❌ unsupported",
+  unknown: "⚠️ unknown",
+};
+
+/**
+ * Render probe results as a Markdown capability matrix
+ */
+export function formatCapabilityMatrix(capabilities: NetworkCapabilities): string {
+  const lines = [
+    `=== Network Capability Matrix: ${capabilities.network} (Chain ID ${capabilities.chainId}) ===`,
+    "",
+    "| Category | Feature | Fork | Status | Detail |",
+    "|---|---|---|---|---|",
+    ...capabilities.results.map(
+      (r) => `| ${r.category} | ${r.name} | ${r.fork} | ${STATUS_LABEL[r.status]} | ${(r.detail ?? "").replace(/\|/g, "\\|")} |`
+    ),
+  ];
+  const supported = capabilities.results.filter((r) => r.status === "supported").length;
+  lines.push("", `Supported: ${supported}/${capabilities.results.length}`);
+  return lines.join("\n");
+}
+
+/**
+ * Return the required capabilities the network does not support, with the reason for each
+ */
+export function missingCapabilities(capabilities: NetworkCapabilities, required: CapabilityId[]): string[] {
+  return required.flatMap((id) => {
+    const found = capabilities.results.find((r) => r.id === id);
+    if (!found) return [`${id}: not probed`];
+    if (found.status === "supported") return [];
+    return [`${found.name}: ${found.status}${found.detail ? ` (${found.detail})` : ""}`];
+  });
+}
@@ -0,0 +1,260 @@
+import { concat, parseEther, sha256, toBeHex, Wallet } from "ethers";
+import type { HDNodeWallet } from "ethers";
+import { delegationCode, sendRawSetCodeTransaction, waitForReceipt } from "../eip7702";
+import type { RpcProvider } from "../eip7702";
+import type { CapabilityCategory, CapabilityId, CapabilityResult, Hardfork, NetworkCapabilities, ProbeOptions } from "./types";
+
+// Appended to every opcode probe: mstore(0, 1) return(0, 32), so success is observable
+const RETURN_ONE = "600160005260206000f3";
+
+interface OpcodeProbe {
+  id: CapabilityId;
+  name: string;
+  fork: Hardfork;
+  // Init code that runs the opcode and leaves the stack balanced
+  code: string;
+}
+
+const OPCODE_PROBES: OpcodeProbe[] = [
+  { id: "opcode-push0", name: "PUSH0 (EIP-3855)", fork: "shanghai", code: "5f50" },
+  { id: "opcode-tstore-tload", name: "TSTORE/TLOAD (EIP-1153)", fork: "cancun", code: "600160005d60005c50" },
+  { id: "opcode-mcopy", name: "MCOPY (EIP-5656)", fork: "cancun", code: "6020600060005e" },
+  { id: "opcode-blobhash", name: "BLOBHASH (EIP-4844)", fork: "cancun", code: "60004950" },
+  { id: "opcode-blobbasefee", name: "BLOBBASEFEE (EIP-7516)", fork: "cancun", code: "4a50" },
+];
+
+interface PrecompileProbe {
+  id: CapabilityId;
+  name: string;
+  fork: Hardfork;
+  address: string;
+  input: string;
+  // Exact output expected, or just its length in bytes when the value is not worth hard-coding
+  expected: string | number;
+}
+
+// KZG point evaluation for the zero polynomial: commitment = proof = point at infinity, z = y = 0
+const G1_INFINITY = "0xc0" + "00".repeat(47);
+const ZERO_POLY_VERSIONED_HASH = "0x01" + sha256(G1_INFINITY).slice(4);
+const BLS_MODULUS = "0x73eda753299d7d483339d80809a1d80553bda402fffe5bfeffffffff00000001";
+
+const zeros = (bytes: number) => "0x" + "00".repeat(bytes);
+
+const PRECOMPILE_PROBES: PrecompileProbe[] = [
+  {
+    id: "precompile-point-evaluation",
+    name: "KZG point evaluation 0x0a (EIP-4844)",
+    fork: "cancun",
+    address: "0x000000000000000000000000000000000000000a",
+    input: concat([ZERO_POLY_VERSIONED_HASH, zeros(32), zeros(32), G1_INFINITY, G1_INFINITY]),
+    expected: concat([toBeHex(4096, 32), BLS_MODULUS]),
+  },
+  // EIP-2537: operations on points at infinity have fixed, all-zero results
+  { id: "precompile-bls12-g1add", name: "BLS12_G1ADD 0x0b (EIP-2537)", fork: "prague", address: "0x000000000000000000000000000000000000000b", input: zeros(256), expected: zeros(128) },
+  { id: "precompile-bls12-g1msm", name: "BLS12_G1MSM 0x0c (EIP-2537)", fork: "prague", address: "0x000000000000000000000000000000000000000c", input: zeros(160), expected: zeros(128) },
+  { id: "precompile-bls12-g2add", name: "BLS12_G2ADD 0x0d (EIP-2537)", fork: "prague", address: "0x000000000000000000000000000000000000000d", input: zeros(512), expected: zeros(256) },
+  { id: "precompile-bls12-g2msm", name: "BLS12_G2MSM 0x0e (EIP-2537)", fork: "prague", address: "0x000000000000000000000000000000000000000e", input: zeros(288), expected: zeros(256) },
+  { id: "precompile-bls12-pairing", name: "BLS12_PAIRING_CHECK 0x0f (EIP-2537)", fork: "prague", address: "0x000000000000000000000000000000000000000f", input: zeros(384), expected: toBeHex(1, 32) },
+  { id: "precompile-bls12-map-fp-to-g1", name: "BLS12_MAP_FP_TO_G1 0x10 (EIP-2537)", fork: "prague", address: "0x0000000000000000000000000000000000000010", input: zeros(64), expected: 128 },
+  { id: "precompile-bls12-map-fp2-to-g2", name: "BLS12_MAP_FP2_TO_G2 0x11 (EIP-2537)", fork: "prague", address: "0x0000000000000000000000000000000000000011", input: zeros(128), expected: 256 },
+];
+
+interface SystemContractProbe {
+  id: CapabilityId;
+  name: string;
+  fork: Hardfork;
+  address: string;
+  // Optional behavioral check once code is found; returns why the contract does not work, if it does not
+  check?: (provider: RpcProvider, address: string) => Promise<string | undefined>;
+}
+
+const SYSTEM_CONTRACT_PROBES: SystemContractProbe[] = [
+  { id: "system-beacon-roots", name: "Beacon roots contract (EIP-4788)", fork: "cancun", address: "0x000F3df6D732807Ef1319fB7B8bB8522d0Beac02" },
+  {
+    id: "system-history-storage",
+    name: "History storage contract (EIP-2935)",
+    fork: "prague",
+    address: "0x0000F90827F1C53a10cb7A02335B175320002935",
+    check: checkHistoryStorage,
+  },
+];
+
+// Gas budget per probe transaction, used to size the throwaway wallet's funding
+const PROBE_TX_GAS = 100_000n;
+
+/**
+ * Probe which transaction types, opcodes, precompiles and system contracts a node supports
+ * @dev Opcode, precompile and system contract probes are read-only (eth_call / eth_getCode).
+ *      Transaction probes fund a throwaway wallet from options.funder and send real transactions.
+ *      Prague adds no new opcodes, so it is detected through type 0x04, BLS12-381 and EIP-2935.
+ */
+export async function probeNetworkCapabilities(options: ProbeOptions): Promise<NetworkCapabilities> {
+  const { provider } = options;
+  const chainId = (await provider.getNetwork()).chainId;
+
+  const results: CapabilityResult[] = [
+    ...(await probeTransactionTypes(options)),
+    ...(await Promise.all(OPCODE_PROBES.map((probe) => probeOpcode(options, probe)))),
+    ...(await Promise.all(PRECOMPILE_PROBES.map((probe) => probePrecompile(options, probe)))),
+    ...(await Promise.all(SYSTEM_CONTRACT_PROBES.map((probe) => probeSystemContract(options, probe)))),
+  ];
+
+  return { network: options.network, chainId, results };
+}
+
+async function probeOpcode({ provider }: ProbeOptions, probe: OpcodeProbe): Promise<CapabilityResult> {
+  try {
+    // Contract-creation eth_call: the init code runs without deploying anything
+    const output: string = await provider.send("eth_call", [{ data: "0x" + probe.code + RETURN_ONE }, "latest"]);
+    return output === toBeHex(1, 32)
+      ? result(probe, "opcode", "supported")
+      : result(probe, "opcode", "unsupported", `unexpected output ${output}`);
+  } catch (error: any) {
+    return result(probe, "opcode", "unsupported", shortMessage(error));
+  }
+}
+
+async function probePrecompile({ provider }: ProbeOptions, probe: PrecompileProbe): Promise<CapabilityResult> {
+  try {
+    const output: string = await provider.send("eth_call", [{ to: probe.address, data: probe.input }, "latest"]);
+    const matches =
+      typeof probe.expected === "number" ? output.length === 2 + probe.expected * 2 : output === probe.expected;
+    if (matches) return result(probe, "precompile", "supported");
+    // An inactive precompile address behaves like an empty account and returns 0x
+    return result(probe, "precompile", "unsupported", output === "0x" ? "no precompile at address (empty output)" : `unexpected output ${output.slice(0, 42)}…`);
+  } catch (error: any) {
+    return result(probe, "precompile", "unsupported", shortMessage(error));
+  }
+}
+
+async function probeSystemContract({ provider }: ProbeOptions, probe: SystemContractProbe): Promise<CapabilityResult> {
+  try {
+    const code = await provider.getCode(probe.address);
+    if (code === "0x") {
+      return result(probe, "system-contract", "unsupported", "no code at system address");
+    }
+    const failure = probe.check ? await probe.check(provider, probe.address) : undefined;
+    return failure
+      ? result(probe, "system-contract", "unsupported", failure)
+      : result(probe, "system-contract", "supported");
+  } catch (error: any) {
+    return result(probe, "system-contract", "unknown", shortMessage(error));
+  }
+}
+
+/**
+ * The history contract must serve the parent block's hash; code alone is not enough
+ * (Hardhat, for one, deploys a stub at the address that always reverts)
+ */
+async function checkHistoryStorage(provider: RpcProvider, address: string): Promise<string | undefined> {
+  const latest = await provider.getBlockNumber();
+  // Without a parent block past genesis there is nothing to compare yet
+  if (latest < 2) {
+    return undefined;
+  }
+  const parent = latest - 1;
+  let output: string;
+  try {
+    output = await provider.send("eth_call", [{ to: address, data: toBeHex(parent, 32) }, "latest"]);
+  } catch (error: any) {
+    return `get(${parent}) reverted: ${shortMessage(error)}`;
+  }
+  const expected = (await provider.getBlock(parent))?.hash;
+  return output === expected ? undefined : `get(${parent}) returned ${output.slice(0, 18)}…, expected the block hash`;
+}
+
+async function probeTransactionTypes(options: ProbeOptions): Promise<CapabilityResult[]> {
+  const type2 = { id: "tx-type-2" as const, name: "Type 0x02 (EIP-1559)", fork: "london" as const };
+  const type3 = { id: "tx-type-3" as const, name: "Type 0x03 (EIP-4844)", fork: "cancun" as const };
+  const type4 = { id: "tx-type-4" as const, name: "Type 0x04 (EIP-7702)", fork: "prague" as const };
+
+  const blobs = await probeBlobHeaders(options, type3);
+
+  let wallet: HDNodeWallet;
+  try {
+    wallet = await fundProbeWallet(options);
+  } catch (error: any) {
+    const detail = `cannot fund probe wallet: ${shortMessage(error)}`;
+    return [result(type2, "transaction", "unknown", detail), blobs, result(type4, "transaction", "unknown", detail)];
+  }
+
+  let type2Result: CapabilityResult;
+  try {
+    const tx = await wallet.sendTransaction({ type: 2, to: wallet.address, value: 0n, gasLimit: 21_000n });
+    const receipt = await waitForReceipt(options.provider, tx.hash);
+    type2Result =
+      receipt.status === 1 && receipt.type === 2
+        ? result(type2, "transaction", "supported")
+        : result(type2, "transaction", "unsupported", `mined as type ${receipt.type} with status ${receipt.status}`);
+  } catch (error: any) {
+    type2Result = result(type2, "transaction", "unsupported", shortMessage(error));
+  }
+
+  let type4Result: CapabilityResult;
+  try {
+    // Self-sponsored delegation to the ecrecover precompile: harmless, and the marker proves the list was applied
+    const delegate = "0x0000000000000000000000000000000000000001";
+    const nonce = await options.provider.getTransactionCount(wallet.address);
+    const auth = await wallet.authorize({ address: delegate, nonce: nonce + 1, chainId: (await options.provider.getNetwork()).chainId });
+    const receipt = await sendRawSetCodeTransaction(
+      wallet,
+      { to: wallet.address, gasLimit: PROBE_TX_GAS, authorizationList: [auth] },
+      { provider: options.provider }
+    );
+    const code = (await options.provider.getCode(wallet.address)).toLowerCase();
+    type4Result =
+      receipt.status === 1 && code === delegationCode(delegate)
+        ? result(type4, "transaction", "supported")
+        : result(type4, "transaction", "unsupported", `accepted but authorization not applied (code ${code})`);
+  } catch (error: any) {
+    type4Result = result(type4, "transaction", "unsupported", shortMessage(error));
+  }
+
+  return [type2Result, blobs, type4Result];
+}
+
+/**
+ * Blob transactions need KZG data to submit, so type 0x03 support is inferred from
+ * the Cancun blob gas header fields and the eth_blobBaseFee method
+ */
+async function probeBlobHeaders(
+  { provider }: ProbeOptions,
+  probe: { id: CapabilityId; name: string; fork: Hardfork }
+): Promise<CapabilityResult> {
+  try {
+    const block = await provider.send("eth_getBlockByNumber", ["latest", false]);
+    if (block?.excessBlobGas === undefined || block?.blobGasUsed === undefined) {
+      return result(probe, "transaction", "unsupported", "block header has no blob gas fields");
+    }
+    await provider.send("eth_blobBaseFee", []);
+    return result(probe, "transaction", "supported", "blob gas header fields and eth_blobBaseFee present");
+  } catch (error: any) {
+    return result(probe, "transaction", "unsupported", shortMessage(error));
+  }
+}
+
+async function fundProbeWallet({ provider, funder }: ProbeOptions): Promise<HDNodeWallet> {
+  if (!funder) {
+    throw new Error("no funded signer configured");
+  }
+  const wallet = Wallet.createRandom().connect(provider);
+  const feeData = await provider.getFeeData();
+  const maxFeePerGas = feeData.maxFeePerGas ?? feeData.gasPrice ?? parseEther("0.0000001");
+  const tx = await funder.sendTransaction({ to: wallet.address, value: maxFeePerGas * PROBE_TX_GAS * 3n });
+  await waitForReceipt(provider, tx.hash);
+  return wallet;
+}
+
+function result(
+  probe: { id: CapabilityId; name: string; fork: Hardfork },
+  category: CapabilityCategory,
+  status: CapabilityResult["status"],
+  detail?: string
+): CapabilityResult {
+  return { id: probe.id, category, name: probe.name, fork: probe.fork, status, ...(detail ? { detail } : {}) };
+}
+
+function shortMessage(error: any): string {
+  const message: string = error?.shortMessage ?? error?.message ?? String(error);
+  return message.split("\n")[0].slice(0, 120);
+}
@@ -0,0 +1,38 @@
+import { logger } from "../logger";
+import { missingCapabilities } from "./matrix";
+import { probeNetworkCapabilities } from "./probe";
+import type { CapabilityId, NetworkCapabilities, ProbeOptions } from "./types";
+
+// One probe per network and process: every suite in a run shares the result
+const probeCache = new Map<string, Promise<NetworkCapabilities>>();
+
+/**
+ * Probe the network once per run and cache the result
+ */
+export function getNetworkCapabilities(options: ProbeOptions): Promise<NetworkCapabilities> {
+  let cached = probeCache.get(options.network);
+  if (!cached) {
+    cached = probeNetworkCapabilities(options);
+    probeCache.set(options.network, cached);
+  }
+  return cached;
+}
+
+/**
+ * Skip the current Mocha suite when the node lacks a required capability
+ * @dev Call from a before() hook: every test in the suite is then reported as pending
+ *      with one "skipped: unsupported by node" line, instead of failing one by one
+ */
+export async function skipUnlessSupported(
+  context: Mocha.Context,
+  options: ProbeOptions,
+  required: CapabilityId[]
+): Promise<void> {
+  const capabilities = await getNetworkCapabilities(options);
+  const missing = missingCapabilities(capabilities, required);
+  if (missing.length === 0) return;
+
+  logger.environment({ network: options.network, chainId: capabilities.chainId.toString(), accounts: {} });
+  logger.suiteSkipped(missing.join("; "));
+  context.skip();
+}
@@ -0,0 +1,59 @@
+import type { Signer } from "ethers";
+import type { RpcProvider } from "../eip7702";
+
+export type Hardfork = "london" | "shanghai" | "cancun" | "prague";
+
+export type CapabilityCategory = "transaction" | "opcode" | "precompile" | "system-contract";
+
+/**
+ * - supported: the feature was exercised and behaved as the EIP specifies
+ * - unsupported: the node rejected it or the result shows it is not active
+ * - unknown: the probe itself could not run (e.g. no funded signer for transaction probes)
+ */
+export type CapabilityStatus = "supported" | "unsupported" | "unknown";
+
+export type CapabilityId =
+  | "tx-type-2"
+  | "tx-type-3"
+  | "tx-type-4"
+  | "opcode-push0"
+  | "opcode-tstore-tload"
+  | "opcode-mcopy"
+  | "opcode-blobhash"
+  | "opcode-blobbasefee"
+  | "precompile-point-evaluation"
+  | "precompile-bls12-g1add"
+  | "precompile-bls12-g1msm"
+  | "precompile-bls12-g2add"
+  | "precompile-bls12-g2msm"
+  | "precompile-bls12-pairing"
+  | "precompile-bls12-map-fp-to-g1"
+  | "precompile-bls12-map-fp2-to-g2"
+  | "system-beacon-roots"
+  | "system-history-storage";
+
+export interface CapabilityResult {
+  id: CapabilityId;
+  category: CapabilityCategory;
+  // Human readable feature name, e.g. "Type 0x04 (EIP-7702)"
+  name: string;
+  // Fork that introduced the feature
+  fork: Hardfork;
+  status: CapabilityStatus;
+  // Error message or observation explaining the status
+  detail?: string;
+}
+
+export interface NetworkCapabilities {
+  network: string;
+  chainId: bigint;
+  results: CapabilityResult[];
+}
+
+export interface ProbeOptions {
+  provider: RpcProvider;
+  // Network name shown in the matrix (hardhat.config.ts key)
+  network: string;
+  // Funds a throwaway wallet for the transaction probes; without it they are reported as unknown
+  funder?: Signer;
+}
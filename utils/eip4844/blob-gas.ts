@@ -0,0 +1,42 @@
+import type { Hardfork } from "../capabilities";
+import type { BlobGasSchedule } from "./types";
+
+export const GAS_PER_BLOB = 131_072n;
+export const MIN_BASE_FEE_PER_BLOB_GAS = 1n;
+
+// Per-fork blob targets and base fee update fraction (EIP-4844, EIP-7691)
+export const BLOB_GAS_SCHEDULES: Record<Extract<Hardfork, "cancun" | "prague">, BlobGasSchedule> = {
+  cancun: { targetBlobsPerBlock: 3, maxBlobsPerBlock: 6, updateFraction: 3_338_477n },
+  prague: { targetBlobsPerBlock: 6, maxBlobsPerBlock: 9, updateFraction: 5_007_716n },
+};
+
+/**
+ * Integer approximation of factor * e ** (numerator / denominator), as specified in EIP-4844
+ */
+export function fakeExponential(factor: bigint, numerator: bigint, denominator: bigint): bigint {
+  let i = 1n;
+  let output = 0n;
+  let accumulator = factor * denominator;
+  while (accumulator > 0n) {
+    output += accumulator;
+    accumulator = (accumulator * numerator) / (denominator * i);
+    i++;
+  }
+  return output / denominator;
+}
+
+/**
+ * Blob base fee of a block, from its header's excess_blob_gas
+ */
+export function blobBaseFee(excessBlobGas: bigint, schedule: BlobGasSchedule): bigint {
+  return fakeExponential(MIN_BASE_FEE_PER_BLOB_GAS, excessBlobGas, schedule.updateFraction);
+}
+
+/**
+ * excess_blob_gas of the child block: blob gas used above the target accumulates, below it drains
+ */
+export function nextExcessBlobGas(parentExcessBlobGas: bigint, parentBlobGasUsed: bigint, schedule: BlobGasSchedule): bigint {
+  const target = BigInt(schedule.targetBlobsPerBlock) * GAS_PER_BLOB;
+  const total = parentExcessBlobGas + parentBlobGasUsed;
+  return total < target ? 0n : total - target;
+}
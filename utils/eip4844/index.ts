@@ -0,0 +1,4 @@
+export * from "./types";
+export * from "./kzg";
+export * from "./blob-gas";
+export * from "./raw-transaction";
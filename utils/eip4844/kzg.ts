@@ -0,0 +1,86 @@
+import { concat, getBytes, hexlify, keccak256, sha256 } from "ethers";
+import type { BytesLike } from "ethers";
+import { KZG } from "micro-eth-signer/kzg";
+import { trustedSetup } from "@paulmillr/trusted-setups/fast.js";
+import type { BlobSidecar } from "./types";
+
+export const FIELD_ELEMENTS_PER_BLOB = 4096;
+export const BYTES_PER_FIELD_ELEMENT = 32;
+export const BYTES_PER_BLOB = FIELD_ELEMENTS_PER_BLOB * BYTES_PER_FIELD_ELEMENT;
+// Data bytes per blob when every field element keeps a zero high byte (see encodeBlob)
+export const USABLE_BYTES_PER_BLOB = FIELD_ELEMENTS_PER_BLOB * (BYTES_PER_FIELD_ELEMENT - 1);
+export const VERSIONED_HASH_VERSION_KZG = 0x01;
+
+// The mainnet KZG ceremony output; parsed on first use
+let kzg: KZG | undefined;
+// Proving a blob takes seconds in pure JS, and tests reuse the same blobs
+const proofCache = new Map<string, { commitment: string; proof: string }>();
+
+function getKzg(): KZG {
+  kzg ??= new KZG(trustedSetup);
+  return kzg;
+}
+
+/**
+ * Pack arbitrary bytes into a blob, 31 bytes per field element
+ * @dev The zero high byte keeps every element below the BLS12-381 scalar modulus,
+ *      which a blob requires; the rest of the blob is zero-filled
+ * @throws Error if data does not fit into one blob
+ */
+export function encodeBlob(data: BytesLike): string {
+  const bytes = getBytes(data);
+  if (bytes.length > USABLE_BYTES_PER_BLOB) {
+    throw new Error(`❌ Blob data too large: ${bytes.length} bytes, at most ${USABLE_BYTES_PER_BLOB} fit into one blob`);
+  }
+  const blob = new Uint8Array(BYTES_PER_BLOB);
+  for (let i = 0; i * 31 < bytes.length; i++) {
+    blob.set(bytes.subarray(i * 31, (i + 1) * 31), i * BYTES_PER_FIELD_ELEMENT + 1);
+  }
+  return hexlify(blob);
+}
+
+/**
+ * Versioned hash of a KZG commitment: 0x01 || sha256(commitment)[1:]
+ */
+export function commitmentToVersionedHash(commitment: BytesLike): string {
+  return concat([new Uint8Array([VERSIONED_HASH_VERSION_KZG]), getBytes(sha256(commitment)).slice(1)]);
+}
+
+/**
+ * Compute KZG commitments, blob proofs and versioned hashes locally
+ * @param blobs Full-size blobs, e.g. from encodeBlob
+ */
+export function computeBlobSidecar(blobs: BytesLike[]): BlobSidecar {
+  const sidecar: BlobSidecar = { blobs: [], commitments: [], proofs: [], versionedHashes: [] };
+  for (const blob of blobs) {
+    const hex = hexlify(blob);
+    if (getBytes(hex).length !== BYTES_PER_BLOB) {
+      throw new Error(`❌ Invalid blob: expected ${BYTES_PER_BLOB} bytes, got ${getBytes(hex).length}`);
+    }
+    const key = keccak256(hex);
+    let entry = proofCache.get(key);
+    if (!entry) {
+      const commitment = getKzg().blobToKzgCommitment(hex);
+      entry = { commitment, proof: getKzg().computeBlobProof(hex, commitment) };
+      proofCache.set(key, entry);
+    }
+    sidecar.blobs.push(hex);
+    sidecar.commitments.push(hexlify(entry.commitment));
+    sidecar.proofs.push(hexlify(entry.proof));
+    sidecar.versionedHashes.push(commitmentToVersionedHash(entry.commitment));
+  }
+  return sidecar;
+}
+
+/**
+ * Verify every blob proof of a sidecar and that the versioned hashes match the commitments
+ */
+export function verifyBlobSidecar(sidecar: BlobSidecar): boolean {
+  if (sidecar.blobs.length !== sidecar.commitments.length || sidecar.blobs.length !== sidecar.proofs.length) {
+    return false;
+  }
+  if (sidecar.commitments.some((commitment, i) => commitmentToVersionedHash(commitment) !== sidecar.versionedHashes[i])) {
+    return false;
+  }
+  return getKzg().verifyBlobProofBatch(sidecar.blobs, sidecar.commitments, sidecar.proofs);
+}
@@ -0,0 +1,140 @@
+import { BaseWallet, concat, encodeRlp, getAddress, hexlify, keccak256, toBeHex } from "ethers";
+import type { RlpStructuredData, Signer, SigningKey, TransactionReceipt } from "ethers";
+import { logger } from "../logger";
+import { isRpcProvider, resolveProvider, waitForReceipt } from "../eip7702";
+import type { BlobSidecar, BlobTransaction, BlobTransactionRequest, Eip4844Options } from "./types";
+
+// EIP-2718 transaction type of an EIP-4844 blob transaction
+export const BLOB_TX_TYPE = 0x03;
+
+// Gas limit used when the request has none: a plain call plus room for a few storage writes
+export const DEFAULT_BLOB_TX_GAS_LIMIT = 200_000n;
+
+/**
+ * Serialize a blob transaction
+ * - unsigned: 0x03 || rlp([...fields]), the payload that is signed
+ * - signed: 0x03 || rlp([...fields, y_parity, r, s]), the form blocks and receipts refer to
+ * - signed with a sidecar: 0x03 || rlp([[...fields, y_parity, r, s], blobs, commitments, proofs]),
+ *   the network form eth_sendRawTransaction expects
+ * @param tx Transaction payload
+ * @param signature Optional signature
+ * @param sidecar Optional blobs, commitments and proofs; requires a signature
+ */
+export function serializeBlobTransaction(
+  tx: BlobTransaction,
+  signature?: { yParity: number; r: bigint; s: bigint },
+  sidecar?: BlobSidecar
+): string {
+  const fields: RlpStructuredData[] = [
+    toRlpInteger(tx.chainId),
+    toRlpInteger(tx.nonce),
+    toRlpInteger(tx.maxPriorityFeePerGas),
+    toRlpInteger(tx.maxFeePerGas),
+    toRlpInteger(tx.gasLimit),
+    tx.to === null ? "0x" : getAddress(tx.to).toLowerCase(),
+    toRlpInteger(tx.value),
+    hexlify(tx.data),
+    tx.accessList.map((entry) => [getAddress(entry.address).toLowerCase(), entry.storageKeys.map((key) => hexlify(key))]),
+    toRlpInteger(tx.maxFeePerBlobGas),
+    tx.blobVersionedHashes.map((hash) => hexlify(hash)),
+  ];
+  if (signature) {
+    fields.push(toRlpInteger(BigInt(signature.yParity)), toRlpInteger(signature.r), toRlpInteger(signature.s));
+  }
+  if (!sidecar) {
+    return concat([toBeHex(BLOB_TX_TYPE), encodeRlp(fields)]);
+  }
+  if (!signature) {
+    throw new Error("❌ A blob transaction in network form must be signed");
+  }
+  return concat([toBeHex(BLOB_TX_TYPE), encodeRlp([fields, sidecar.blobs, sidecar.commitments, sidecar.proofs])]);
+}
+
+/**
+ * Digest the sender signs: keccak(0x03 || rlp(unsigned fields))
+ */
+export function blobTransactionSigningHash(tx: BlobTransaction): string {
+  return keccak256(serializeBlobTransaction(tx));
+}
+
+/**
+ * Sign a blob transaction locally
+ * @returns raw: network form with the sidecar, for eth_sendRawTransaction
+ *          hash: transaction hash, computed over the signed payload without the sidecar
+ */
+export function signBlobTransaction(
+  tx: BlobTransaction,
+  sidecar: BlobSidecar,
+  signingKey: SigningKey
+): { raw: string; hash: string } {
+  const sig = signingKey.sign(blobTransactionSigningHash(tx));
+  const signature = { yParity: sig.yParity, r: BigInt(sig.r), s: BigInt(sig.s) };
+  return {
+    raw: serializeBlobTransaction(tx, signature, sidecar),
+    hash: keccak256(serializeBlobTransaction(tx, signature)),
+  };
+}
+
+/**
+ * Complete a request with chain id, nonce and fees from the network
+ * @dev maxFeePerBlobGas defaults to twice the current blob base fee (eth_blobBaseFee),
+ *      enough to stay valid while the fee rises for a few blocks
+ */
+export async function populateBlobTransaction(
+  sender: Signer,
+  request: BlobTransactionRequest,
+  options: Eip4844Options = {}
+): Promise<BlobTransaction> {
+  const provider = resolveProvider(sender, options);
+  const senderAddress = await sender.getAddress();
+  const feeData = await provider.getFeeData();
+
+  let maxFeePerBlobGas = request.maxFeePerBlobGas;
+  if (maxFeePerBlobGas === undefined) {
+    if (!isRpcProvider(provider)) {
+      throw new Error("❌ Provider cannot forward eth_blobBaseFee: pass maxFeePerBlobGas");
+    }
+    maxFeePerBlobGas = 2n * BigInt(await provider.send("eth_blobBaseFee", []));
+  }
+
+  return {
+    chainId: request.chainId ?? (await provider.getNetwork()).chainId,
+    nonce: request.nonce ?? BigInt(await provider.getTransactionCount(senderAddress)),
+    maxPriorityFeePerGas: request.maxPriorityFeePerGas ?? feeData.maxPriorityFeePerGas ?? 2_000_000_000n,
+    maxFeePerGas: request.maxFeePerGas ?? feeData.maxFeePerGas ?? 50_000_000_000n,
+    gasLimit: request.gasLimit ?? DEFAULT_BLOB_TX_GAS_LIMIT,
+    to: request.to,
+    value: request.value ?? 0n,
+    data: request.data ?? "0x",
+    accessList: request.accessList ?? [],
+    maxFeePerBlobGas,
+    blobVersionedHashes: request.blobVersionedHashes ?? request.sidecar.versionedHashes,
+  };
+}
+
+/**
+ * Sign a blob transaction locally and submit it with eth_sendRawTransaction
+ * @dev Commitments and proofs come from the request's sidecar (see computeBlobSidecar),
+ *      and the node only has to verify them
+ */
+export async function sendRawBlobTransaction(
+  sender: BaseWallet,
+  request: BlobTransactionRequest,
+  options: Eip4844Options = {}
+): Promise<TransactionReceipt> {
+  const provider = resolveProvider(sender, options);
+  if (!isRpcProvider(provider)) {
+    throw new Error("Provider cannot forward eth_sendRawTransaction");
+  }
+
+  const tx = await populateBlobTransaction(sender, request, { provider });
+  const { raw } = signBlobTransaction(tx, request.sidecar, sender.signingKey);
+
+  const txHash: string = await provider.send("eth_sendRawTransaction", [raw]);
+  logger.transactionSent({ hash: txHash, from: sender.address, to: request.to, txType: BLOB_TX_TYPE });
+  return waitForReceipt(provider, txHash);
+}
+
+function toRlpInteger(value: bigint): string {
+  return value === 0n ? "0x" : toBeHex(value);
+}
@@ -0,0 +1,57 @@
+import type { Provider } from "ethers";
+import type { AccessListEntry } from "../eip7702";
+
+/**
+ * Blobs with their KZG commitments and proofs, as carried in the network form of a type 0x03 transaction
+ * @dev versionedHashes is derived from the commitments and goes into the signed payload
+ */
+export interface BlobSidecar {
+  blobs: string[];
+  commitments: string[];
+  proofs: string[];
+  versionedHashes: string[];
+}
+
+/**
+ * Unsigned blob transaction payload
+ * @dev Field order follows the EIP-4844 RLP layout. Type 0x03 transactions cannot create
+ *      contracts: a null `to` (empty in RLP) only serves to build that invalid form
+ */
+export interface BlobTransaction {
+  chainId: bigint;
+  nonce: bigint;
+  maxPriorityFeePerGas: bigint;
+  maxFeePerGas: bigint;
+  gasLimit: bigint;
+  to: string | null;
+  value: bigint;
+  data: string;
+  accessList: AccessListEntry[];
+  maxFeePerBlobGas: bigint;
+  blobVersionedHashes: string[];
+}
+
+/**
+ * Fields a caller must provide; the rest is filled from the network by sendRawBlobTransaction
+ * @dev blobVersionedHashes defaults to the sidecar's; override it only to build invalid transactions
+ */
+export type BlobTransactionRequest = { to: string } & Partial<Omit<BlobTransaction, "to">> & {
+  sidecar: BlobSidecar;
+};
+
+/**
+ * Blob gas parameters of a fork (EIP-4844, raised by EIP-7691 in Prague)
+ */
+export interface BlobGasSchedule {
+  targetBlobsPerBlock: number;
+  maxBlobsPerBlock: number;
+  updateFraction: bigint;
+}
+
+/**
+ * Options shared by every helper that talks to the network
+ * @dev When provider is omitted, the signer's own provider is used
+ */
+export interface Eip4844Options {
+  provider?: Provider;
+}
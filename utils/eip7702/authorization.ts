@@ -0,0 +1,124 @@
+import { Wallet } from "ethers";
+import type { Signer, TransactionReceipt } from "ethers";
+import { logger } from "../logger";
+import { assertAuthorization } from "./codec";
+import { resolveProvider } from "./provider";
+import { sendType4Transaction } from "./transaction";
+import type { Authorization, CreateAuthorizationOptions, DelegateToOptions, EnsureDelegationOptions } from "./types";
+
+// EIP-7702 delegation indicator prefix: code of a delegated EOA is 0xef0100 || address
+export const DELEGATION_PREFIX = "0xef0100";
+
+/**
+ * Build the code an EOA is expected to hold once delegated to an implementation
+ * @param implementationAddress Contract address the EOA delegates to
+ * @returns Lowercase 0xef0100 || address
+ */
+export function delegationCode(implementationAddress: string): string {
+  return (DELEGATION_PREFIX + implementationAddress.slice(2)).toLowerCase();
+}
+
+/**
+ * Create EIP-7702 authorization signature
+ *
+ * @param signer Signing account (EOA that will delegate)
+ * @param contractAddress Contract address to delegate to
+ * @param options.sponsored Whether this is a sponsored transaction (affects nonce calculation)
+ * @returns Authorization object for EIP-7702 transaction
+ */
+export async function createAuthorization(
+  signer: Signer,
+  contractAddress: string,
+  options: CreateAuthorizationOptions = {}
+): Promise<Authorization> {
+  const provider = resolveProvider(signer, options);
+  const sponsored = options.sponsored ?? false;
+
+  // Get current nonce
+  const signerAddress = await signer.getAddress();
+  const currentNonce = await provider.getTransactionCount(signerAddress);
+
+  // CRITICAL: Nonce handling based on transaction type
+  // - Non-sponsored (same wallet sends & authorizes): use currentNonce + 1
+  //   Because the sender's nonce is incremented BEFORE authorization list is processed
+  // - Sponsored (different wallet sends): use currentNonce
+  //   Because the EOA's nonce hasn't been incremented yet
+  const authNonce = sponsored ? currentNonce : currentNonce + 1;
+
+  if (typeof signer.authorize !== "function") {
+    throw new Error("❌ Signer does not support authorize() method. Please ensure you are using Ethers.js v6 with a compatible Wallet.");
+  }
+
+  const { chainId } = await provider.getNetwork();
+  const auth = await signer.authorize({
+    address: contractAddress,
+    nonce: authNonce,
+    chainId,
+  });
+
+  // Cross-check the signer's output with the offline codec before it reaches a node
+  assertAuthorization(auth, {
+    chainId,
+    address: contractAddress,
+    nonce: BigInt(authNonce),
+    authority: signerAddress,
+  });
+  logger.authorizationCreated({
+    authority: signerAddress,
+    delegate: contractAddress,
+    chainId,
+    nonce: authNonce,
+    sponsored,
+  });
+  return auth;
+}
+
+/**
+ * Ensure an EOA is delegated to a specific implementation contract.
+ * This makes tests independent when running individually on persistent networks (e.g. myNet).
+ *
+ * Strategy:
+ * - If code already matches 0xef0100 + impl address: do nothing
+ * - Otherwise: send a delegation-only type0x04 tx (empty calldata) to update code
+ */
+export async function ensureDelegation(
+  eoaSigner: Signer,
+  implementationAddress: string,
+  options: EnsureDelegationOptions = {}
+): Promise<void> {
+  const provider = resolveProvider(eoaSigner, options);
+  const eoaAddress = await eoaSigner.getAddress();
+  const expectedCode = delegationCode(implementationAddress);
+  const currentCode = (await provider.getCode(eoaAddress)).toLowerCase();
+
+  logger.section(`Ensure Delegation: ${options.label ?? eoaAddress}`);
+  logger.detail("Target implementation", implementationAddress);
+  if (logger.codeChecked(eoaAddress, currentCode, expectedCode)) {
+    logger.info("✓ Delegation already set");
+    return;
+  }
+
+  logger.info("Delegation missing or different → setting delegation (delegation-only type0x04)");
+  const auth = await createAuthorization(eoaSigner, implementationAddress, { provider });
+  await sendType4Transaction(eoaSigner, eoaAddress, "0x", [auth], { provider });
+
+  const codeAfter = (await provider.getCode(eoaAddress)).toLowerCase();
+  if (!logger.codeChecked(eoaAddress, codeAfter, expectedCode)) {
+    throw new Error(`❌ Delegation not applied: expected ${expectedCode}, got ${codeAfter}`);
+  }
+}
+
+/**
+ * Delegate an EOA with a delegation-only type 0x04 transaction sent to a fresh, empty address
+ * @dev Nothing runs in the EOA: no delegate fallback or initialization touches its storage, and a
+ *      chained EOA (whose code cannot execute) can still be delegated. Unlike ensureDelegation, the
+ *      transaction is always sent.
+ * @param authority EOA that signs the authorization
+ * @param target Address to delegate to; the zero address clears the delegation
+ * @param options.sponsor Sender paying for the transaction instead of the authority
+ */
+export async function delegateTo(authority: Signer, target: string, options: DelegateToOptions = {}): Promise<TransactionReceipt> {
+  const { sponsor, provider } = options;
+  const auth = await createAuthorization(authority, target, { provider, sponsored: sponsor !== undefined });
+  return sendType4Transaction(sponsor ?? authority, Wallet.createRandom().address, "0x", [auth], { provider });
+}
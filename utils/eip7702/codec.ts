@@ -0,0 +1,260 @@
+import {
+  computeAddress,
+  concat,
+  decodeRlp,
+  encodeRlp,
+  getAddress,
+  isHexString,
+  keccak256,
+  Signature,
+  SigningKey,
+  toBeArray,
+  toBeHex,
+  toQuantity,
+} from "ethers";
+import type { RlpStructuredData } from "ethers";
+import type { Authorization } from "./types";
+
+// EIP-7702 authorization signing magic byte: keccak(MAGIC || rlp([chain_id, address, nonce]))
+export const AUTHORIZATION_MAGIC = "0x05";
+
+// secp256k1 curve order and the upper bound for canonical (low-s) signatures
+export const SECP256K1_N = 0xfffffffffffffffffffffffffffffffebaaedce6af48a03bbfd25e8cd0364141n;
+export const SECP256K1_HALF_N = SECP256K1_N / 2n;
+
+const MAX_UINT64 = (1n << 64n) - 1n;
+const MAX_UINT256 = (1n << 256n) - 1n;
+
+/**
+ * Unsigned authorization message: the part the authority signs
+ */
+export interface AuthorizationMessage {
+  chainId: bigint;
+  address: string;
+  nonce: bigint;
+}
+
+/**
+ * Raw signed authorization tuple, exactly as it appears on the wire
+ * @dev Unlike Authorization, values here are not normalized by ethers, so malformed
+ *      tuples (yParity > 1, high-s, oversized nonce) can be represented and rejected
+ */
+export interface AuthorizationTuple extends AuthorizationMessage {
+  yParity: number;
+  r: bigint;
+  s: bigint;
+}
+
+/**
+ * Authorization entry in the JSON-RPC transaction object (execution-apis format)
+ */
+export interface RpcAuthorization {
+  chainId: string;
+  address: string;
+  nonce: string;
+  yParity: string;
+  r: string;
+  s: string;
+}
+
+/**
+ * Convert an ethers Authorization into the raw tuple
+ */
+export function toAuthorizationTuple(auth: Authorization): AuthorizationTuple {
+  return {
+    chainId: auth.chainId,
+    address: auth.address,
+    nonce: auth.nonce,
+    yParity: auth.signature.yParity,
+    r: BigInt(auth.signature.r),
+    s: BigInt(auth.signature.s),
+  };
+}
+
+/**
+ * Convert a raw tuple back into an ethers Authorization
+ * @dev Validates the tuple first, so only well-formed signatures come out
+ */
+export function fromAuthorizationTuple(tuple: AuthorizationTuple): Authorization {
+  validateAuthorizationTuple(tuple);
+  return {
+    chainId: tuple.chainId,
+    address: getAddress(tuple.address),
+    nonce: tuple.nonce,
+    signature: Signature.from({
+      r: toBeHex(tuple.r, 32),
+      s: toBeHex(tuple.s, 32),
+      yParity: tuple.yParity as 0 | 1,
+    }),
+  };
+}
+
+/**
+ * Check that the message fields fit the ranges EIP-7702 allows
+ * @throws Error describing the first invalid field
+ */
+export function validateAuthorizationMessage(message: AuthorizationMessage): void {
+  if (message.chainId < 0n || message.chainId > MAX_UINT256) {
+    throw new Error(`❌ Invalid authorization: chain_id ${message.chainId} is outside uint256`);
+  }
+  if (message.nonce < 0n || message.nonce > MAX_UINT64) {
+    throw new Error(`❌ Invalid authorization: nonce ${message.nonce} must be < 2^64`);
+  }
+  if (!isHexString(message.address, 20)) {
+    throw new Error(`❌ Invalid authorization: address ${message.address} is not 20 bytes`);
+  }
+}
+
+/**
+ * Check that the tuple is well-formed and its signature is canonical
+ * @throws Error describing the first invalid field
+ */
+export function validateAuthorizationTuple(tuple: AuthorizationTuple): void {
+  validateAuthorizationMessage(tuple);
+  if (tuple.yParity !== 0 && tuple.yParity !== 1) {
+    throw new Error(`❌ Invalid authorization: yParity ${tuple.yParity} must be 0 or 1`);
+  }
+  if (tuple.r <= 0n || tuple.r >= SECP256K1_N) {
+    throw new Error("❌ Invalid authorization: r must be in [1, secp256k1n)");
+  }
+  if (tuple.s <= 0n || tuple.s > SECP256K1_HALF_N) {
+    throw new Error("❌ Invalid authorization: s must be in [1, secp256k1n/2] (high-s signatures are rejected)");
+  }
+}
+
+/**
+ * RLP-encode the unsigned message: rlp([chain_id, address, nonce])
+ */
+export function encodeAuthorizationMessage(message: AuthorizationMessage): string {
+  validateAuthorizationMessage(message);
+  return encodeRlp([toBeArray(message.chainId), getAddress(message.address), toBeArray(message.nonce)]);
+}
+
+/**
+ * Compute the digest the authority signs: keccak(0x05 || rlp([chain_id, address, nonce]))
+ */
+export function authorizationSigningHash(message: AuthorizationMessage): string {
+  return keccak256(concat([AUTHORIZATION_MAGIC, encodeAuthorizationMessage(message)]));
+}
+
+/**
+ * Sign an authorization offline with a raw key
+ * @dev Unlike Signer.authorize(), nothing is filled in from the network, so any chain id
+ *      (including 0) and nonce can be signed; tests derive malformed tuples from the result
+ */
+export function signAuthorizationTuple(message: AuthorizationMessage, signingKey: SigningKey): AuthorizationTuple {
+  const signature = signingKey.sign(authorizationSigningHash(message));
+  return {
+    chainId: message.chainId,
+    address: getAddress(message.address),
+    nonce: message.nonce,
+    yParity: signature.yParity,
+    r: BigInt(signature.r),
+    s: BigInt(signature.s),
+  };
+}
+
+/**
+ * Recover the authority address from a signed tuple
+ * @throws Error if the tuple is malformed or the signature is not canonical
+ */
+export function recoverAuthority(tuple: AuthorizationTuple | Authorization): string {
+  const raw = "signature" in tuple ? toAuthorizationTuple(tuple) : tuple;
+  validateAuthorizationTuple(raw);
+  const publicKey = SigningKey.recoverPublicKey(authorizationSigningHash(raw), {
+    r: toBeHex(raw.r, 32),
+    s: toBeHex(raw.s, 32),
+    yParity: raw.yParity as 0 | 1,
+  });
+  return computeAddress(publicKey);
+}
+
+/**
+ * Cross-check an authorization against the values it was requested with
+ * @throws Error if any field or the recovered authority does not match
+ */
+export function assertAuthorization(auth: Authorization, expected: AuthorizationMessage & { authority: string }): void {
+  if (auth.chainId !== expected.chainId) {
+    throw new Error(`❌ Authorization chain_id mismatch: expected ${expected.chainId}, got ${auth.chainId}`);
+  }
+  if (auth.nonce !== expected.nonce) {
+    throw new Error(`❌ Authorization nonce mismatch: expected ${expected.nonce}, got ${auth.nonce}`);
+  }
+  if (getAddress(auth.address) !== getAddress(expected.address)) {
+    throw new Error(`❌ Authorization address mismatch: expected ${expected.address}, got ${auth.address}`);
+  }
+  const authority = recoverAuthority(auth);
+  if (authority !== getAddress(expected.authority)) {
+    throw new Error(`❌ Authorization signer mismatch: expected ${expected.authority}, recovered ${authority}`);
+  }
+}
+
+/**
+ * RLP fields of a signed tuple: [chain_id, address, nonce, y_parity, r, s]
+ * @dev Returned unencoded so the tuple can be nested inside a transaction payload.
+ *      The signature is deliberately not validated, so malformed tuples can still be
+ *      put on the wire to test how a node skips them
+ */
+export function authorizationTupleToRlp(tuple: AuthorizationTuple): RlpStructuredData {
+  return [
+    toRlpInteger(tuple.chainId),
+    getAddress(tuple.address).toLowerCase(),
+    toRlpInteger(tuple.nonce),
+    toRlpInteger(BigInt(tuple.yParity)),
+    toRlpInteger(tuple.r),
+    toRlpInteger(tuple.s),
+  ];
+}
+
+/**
+ * Decode RLP fields (or encoded bytes) of a signed tuple
+ * @dev Integers must be canonical (no leading zero bytes); the tuple is not validated here,
+ *      so callers can decide whether to reject or skip it
+ */
+export function authorizationTupleFromRlp(data: RlpStructuredData): AuthorizationTuple {
+  const fields = typeof data === "string" ? decodeRlp(data) : data;
+  if (!Array.isArray(fields) || fields.length !== 6 || fields.some((field) => typeof field !== "string")) {
+    throw new Error("❌ Invalid authorization tuple: expected 6 RLP byte strings");
+  }
+  const [chainId, address, nonce, yParity, r, s] = fields as string[];
+  if (!isHexString(address, 20)) {
+    throw new Error(`❌ Invalid authorization tuple: address ${address} is not 20 bytes`);
+  }
+  return {
+    chainId: fromRlpInteger(chainId, "chain_id"),
+    address: getAddress(address),
+    nonce: fromRlpInteger(nonce, "nonce"),
+    yParity: Number(fromRlpInteger(yParity, "y_parity")),
+    r: fromRlpInteger(r, "r"),
+    s: fromRlpInteger(s, "s"),
+  };
+}
+
+/**
+ * Format an authorization for the JSON-RPC authorizationList field
+ * @dev Validated and recovered first, so a malformed signature never reaches the node
+ */
+export function toRpcAuthorization(auth: Authorization): RpcAuthorization {
+  const tuple = toAuthorizationTuple(auth);
+  recoverAuthority(tuple);
+  return {
+    chainId: toQuantity(tuple.chainId),
+    address: getAddress(tuple.address),
+    nonce: toQuantity(tuple.nonce),
+    yParity: toQuantity(tuple.yParity),
+    r: toQuantity(tuple.r),
+    s: toQuantity(tuple.s),
+  };
+}
+
+function toRlpInteger(value: bigint): string {
+  return value === 0n ? "0x" : toBeHex(value);
+}
+
+function fromRlpInteger(value: string, field: string): bigint {
+  if (value === "0x") return 0n;
+  if (value.startsWith("0x00")) {
+    throw new Error(`❌ Invalid authorization tuple: ${field} has leading zero bytes`);
+  }
+  return BigInt(value);
+}
@@ -0,0 +1,107 @@
+import { getBytes } from "ethers";
+import type { AccessListEntry } from "./raw-transaction";
+
+// Base cost of every transaction
+export const TX_BASE_COST = 21_000n;
+// EIP-2028 calldata pricing
+export const TX_DATA_ZERO_GAS = 4n;
+export const TX_DATA_NON_ZERO_GAS = 16n;
+// EIP-2930 access list pricing
+export const ACCESS_LIST_ADDRESS_COST = 2_400n;
+export const ACCESS_LIST_STORAGE_KEY_COST = 1_900n;
+// EIP-7702: charged per authorization tuple, as if every authority were a new account...
+export const PER_EMPTY_ACCOUNT_COST = 25_000n;
+// ...and partially refunded down to this when the authority already exists
+export const PER_AUTH_BASE_COST = 12_500n;
+// EIP-7623 calldata floor: every calldata token costs at least this much
+export const TOTAL_COST_FLOOR_PER_TOKEN = 10n;
+// EIP-3529: refunds are capped at gas used / 5
+export const MAX_REFUND_QUOTIENT = 5n;
+
+// Execution allowance added on top of the intrinsic gas when no gas limit is given
+export const DEFAULT_EXECUTION_GAS = 400_000n;
+
+/**
+ * What intrinsic gas depends on: calldata, access list and the authorization list
+ */
+export interface IntrinsicGasInput {
+  data?: string;
+  accessList?: AccessListEntry[];
+  authorizationCount: number;
+  // Authorities that already exist (non-empty accounts) when their tuple is processed
+  existingAuthorities?: number;
+}
+
+/**
+ * EIP-2028 calldata cost: 4 gas per zero byte, 16 per non-zero byte
+ */
+export function calldataGas(data: string = "0x"): bigint {
+  const bytes = getBytes(data);
+  const zeros = BigInt(bytes.filter((byte) => byte === 0).length);
+  return zeros * TX_DATA_ZERO_GAS + (BigInt(bytes.length) - zeros) * TX_DATA_NON_ZERO_GAS;
+}
+
+/**
+ * EIP-7623 minimum gas used: 21000 + 10 * (zero bytes + 4 * non-zero bytes)
+ */
+export function calldataFloorGas(data: string = "0x"): bigint {
+  const tokens = calldataGas(data) / TX_DATA_ZERO_GAS;
+  return TX_BASE_COST + TOTAL_COST_FLOOR_PER_TOKEN * tokens;
+}
+
+/**
+ * Intrinsic gas charged up front, before any authorization refund
+ * @dev Contract creation is not covered: type 0x04 transactions always have a destination
+ */
+export function intrinsicGas(input: IntrinsicGasInput): bigint {
+  const accessList = input.accessList ?? [];
+  const storageKeys = accessList.reduce((count, entry) => count + entry.storageKeys.length, 0);
+  return (
+    TX_BASE_COST +
+    calldataGas(input.data) +
+    BigInt(accessList.length) * ACCESS_LIST_ADDRESS_COST +
+    BigInt(storageKeys) * ACCESS_LIST_STORAGE_KEY_COST +
+    BigInt(input.authorizationCount) * PER_EMPTY_ACCOUNT_COST
+  );
+}
+
+/**
+ * Refund added for authorities that already exist, before the EIP-3529 cap
+ */
+export function authorizationRefund(existingAuthorities: number = 0): bigint {
+  return BigInt(existingAuthorities) * (PER_EMPTY_ACCOUNT_COST - PER_AUTH_BASE_COST);
+}
+
+/**
+ * Expected receipt.gasUsed for a transaction whose execution costs executionGas
+ * @dev Assumes no other refunds (e.g. SSTORE clears) during execution
+ */
+export function expectedGasUsed(input: IntrinsicGasInput, executionGas: bigint = 0n): bigint {
+  const gasUsed = intrinsicGas(input) + executionGas;
+  const refund = minBigInt(authorizationRefund(input.existingAuthorities), gasUsed / MAX_REFUND_QUOTIENT);
+  return maxBigInt(gasUsed - refund, calldataFloorGas(input.data));
+}
+
+/**
+ * Lowest gasUsed any conforming node can report: at most a fifth of the intrinsic
+ * gas can be refunded, and never below the calldata floor
+ */
+export function minimumGasUsed(input: IntrinsicGasInput): bigint {
+  const intrinsic = intrinsicGas(input);
+  return maxBigInt(intrinsic - intrinsic / MAX_REFUND_QUOTIENT, calldataFloorGas(input.data));
+}
+
+/**
+ * Gas limit for a type 0x04 transaction: intrinsic gas (no refund assumed) plus an execution allowance
+ */
+export function estimateSetCodeGasLimit(input: IntrinsicGasInput, executionGas: bigint = DEFAULT_EXECUTION_GAS): bigint {
+  return maxBigInt(intrinsicGas(input) + executionGas, calldataFloorGas(input.data));
+}
+
+function minBigInt(a: bigint, b: bigint): bigint {
+  return a < b ? a : b;
+}
+
+function maxBigInt(a: bigint, b: bigint): bigint {
+  return a > b ? a : b;
+}
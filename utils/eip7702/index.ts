@@ -0,0 +1,8 @@
+export * from "./types";
+export * from "./provider";
+export * from "./codec";
+export * from "./gas";
+export * from "./authorization";
+export * from "./raw-transaction";
+export * from "./transaction";
+export * from "./wallet";
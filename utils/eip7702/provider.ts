@@ -0,0 +1,44 @@
+import type { Provider, Signer, TransactionReceipt } from "ethers";
+import type { Eip7702Options } from "./types";
+
+/**
+ * Provider that can forward raw JSON-RPC calls (JsonRpcProvider, HardhatEthersProvider)
+ */
+export interface RpcProvider extends Provider {
+  send(method: string, params: unknown[]): Promise<any>;
+}
+
+/**
+ * Resolve the provider to use: the injected one first, then the signer's own
+ */
+export function resolveProvider(signer: Signer, options: Eip7702Options = {}): Provider {
+  const provider = options.provider ?? signer.provider;
+  if (!provider) {
+    throw new Error("❌ No provider available: connect the signer to a provider or pass options.provider");
+  }
+  return provider;
+}
+
+/**
+ * Check whether a provider can forward raw JSON-RPC calls
+ */
+export function isRpcProvider(provider: Provider): provider is RpcProvider {
+  return typeof (provider as Partial<RpcProvider>).send === "function";
+}
+
+/**
+ * Wait for a transaction receipt by polling
+ * @param timeoutSeconds Polling budget, one request per second (default: 60)
+ */
+export async function waitForReceipt(
+  provider: Provider,
+  txHash: string,
+  timeoutSeconds: number = 60
+): Promise<TransactionReceipt> {
+  for (let i = 0; i < timeoutSeconds; i++) {
+    const receipt = await provider.getTransactionReceipt(txHash);
+    if (receipt) return receipt;
+    await new Promise((resolve) => setTimeout(resolve, 1000));
+  }
+  throw new Error(`Transaction not confirmed after ${timeoutSeconds} seconds`);
+}
@@ -0,0 +1,255 @@
+import {
+  BaseWallet,
+  concat,
+  decodeRlp,
+  encodeRlp,
+  getAddress,
+  getBytes,
+  hexlify,
+  isHexString,
+  keccak256,
+  recoverAddress,
+  toBeHex,
+} from "ethers";
+import type { RlpStructuredData, Signer, SigningKey, TransactionReceipt } from "ethers";
+import { logger } from "../logger";
+import { authorizationTupleFromRlp, authorizationTupleToRlp, toAuthorizationTuple } from "./codec";
+import type { AuthorizationTuple } from "./codec";
+import { estimateSetCodeGasLimit } from "./gas";
+import { isRpcProvider, resolveProvider, waitForReceipt } from "./provider";
+import type { Authorization, Eip7702Options } from "./types";
+
+// EIP-2718 transaction type of an EIP-7702 SetCode transaction
+export const SET_CODE_TX_TYPE = 0x04;
+
+export interface AccessListEntry {
+  address: string;
+  storageKeys: string[];
+}
+
+/**
+ * Unsigned SetCode transaction payload
+ * @dev Field order follows the EIP-7702 RLP layout; `to` is mandatory because
+ *      type 0x04 transactions cannot create contracts
+ */
+export interface SetCodeTransaction {
+  chainId: bigint;
+  nonce: bigint;
+  maxPriorityFeePerGas: bigint;
+  maxFeePerGas: bigint;
+  gasLimit: bigint;
+  to: string;
+  value: bigint;
+  data: string;
+  accessList: AccessListEntry[];
+  authorizationList: AuthorizationTuple[];
+}
+
+/**
+ * SetCode transaction decoded from its raw bytes, with the sender recovered
+ */
+export interface SignedSetCodeTransaction extends SetCodeTransaction {
+  yParity: number;
+  r: bigint;
+  s: bigint;
+  from: string;
+  hash: string;
+}
+
+/**
+ * Fields a caller must provide; the rest is filled from the network by sendRawSetCodeTransaction
+ */
+export type SetCodeTransactionRequest = Pick<SetCodeTransaction, "to"> &
+  Partial<Omit<SetCodeTransaction, "to" | "authorizationList">> & {
+    authorizationList: Array<Authorization | AuthorizationTuple>;
+  };
+
+/**
+ * Serialize a SetCode transaction: 0x04 || rlp([...fields, (y_parity, r, s)])
+ * @param tx Transaction payload
+ * @param signature Optional signature; omit it to get the payload that is signed
+ */
+export function serializeSetCodeTransaction(
+  tx: SetCodeTransaction,
+  signature?: { yParity: number; r: bigint; s: bigint }
+): string {
+  const fields: RlpStructuredData[] = [
+    toRlpInteger(tx.chainId),
+    toRlpInteger(tx.nonce),
+    toRlpInteger(tx.maxPriorityFeePerGas),
+    toRlpInteger(tx.maxFeePerGas),
+    toRlpInteger(tx.gasLimit),
+    getAddress(tx.to).toLowerCase(),
+    toRlpInteger(tx.value),
+    hexlify(tx.data),
+    tx.accessList.map((entry) => [getAddress(entry.address).toLowerCase(), entry.storageKeys.map((key) => hexlify(key))]),
+    tx.authorizationList.map(authorizationTupleToRlp),
+  ];
+  if (signature) {
+    fields.push(toRlpInteger(BigInt(signature.yParity)), toRlpInteger(signature.r), toRlpInteger(signature.s));
+  }
+  return concat([toBeHex(SET_CODE_TX_TYPE), encodeRlp(fields)]);
+}
+
+/**
+ * Digest the sender signs: keccak(0x04 || rlp(unsigned fields))
+ */
+export function setCodeTransactionSigningHash(tx: SetCodeTransaction): string {
+  return keccak256(serializeSetCodeTransaction(tx));
+}
+
+/**
+ * Sign a SetCode transaction locally and return the raw bytes for eth_sendRawTransaction
+ */
+export function signSetCodeTransaction(tx: SetCodeTransaction, signingKey: SigningKey): string {
+  const signature = signingKey.sign(setCodeTransactionSigningHash(tx));
+  return serializeSetCodeTransaction(tx, {
+    yParity: signature.yParity,
+    r: BigInt(signature.r),
+    s: BigInt(signature.s),
+  });
+}
+
+/**
+ * Decode a raw signed SetCode transaction into typed fields
+ * @dev Authorization tuples are decoded but not validated: a node skips invalid tuples
+ *      instead of rejecting the transaction, so callers decide what to do with them
+ * @throws Error if the bytes are not a well-formed signed type 0x04 transaction
+ */
+export function decodeSetCodeTransaction(raw: string): SignedSetCodeTransaction {
+  const bytes = getBytes(raw);
+  if (bytes[0] !== SET_CODE_TX_TYPE) {
+    throw new Error(`❌ Not a SetCode transaction: type byte 0x${bytes[0]?.toString(16).padStart(2, "0")}`);
+  }
+  const fields = decodeRlp(bytes.slice(1));
+  if (!Array.isArray(fields) || fields.length !== 13) {
+    throw new Error("❌ Invalid SetCode transaction: expected 13 RLP fields");
+  }
+  const [chainId, nonce, maxPriorityFeePerGas, maxFeePerGas, gasLimit, to, value, data, accessList, authorizationList, yParity, r, s] =
+    fields;
+  if (typeof to !== "string" || !isHexString(to, 20)) {
+    throw new Error("❌ Invalid SetCode transaction: destination must be a 20-byte address");
+  }
+  if (!Array.isArray(accessList) || !Array.isArray(authorizationList)) {
+    throw new Error("❌ Invalid SetCode transaction: access list and authorization list must be RLP lists");
+  }
+
+  const tx: SetCodeTransaction = {
+    chainId: fromRlpInteger(chainId, "chain_id"),
+    nonce: fromRlpInteger(nonce, "nonce"),
+    maxPriorityFeePerGas: fromRlpInteger(maxPriorityFeePerGas, "max_priority_fee_per_gas"),
+    maxFeePerGas: fromRlpInteger(maxFeePerGas, "max_fee_per_gas"),
+    gasLimit: fromRlpInteger(gasLimit, "gas_limit"),
+    to: getAddress(to),
+    value: fromRlpInteger(value, "value"),
+    data: expectBytes(data, "data"),
+    accessList: accessList.map((entry) => {
+      if (!Array.isArray(entry) || entry.length !== 2 || !Array.isArray(entry[1])) {
+        throw new Error("❌ Invalid SetCode transaction: malformed access list entry");
+      }
+      return {
+        address: getAddress(expectBytes(entry[0], "access list address")),
+        storageKeys: entry[1].map((key) => expectBytes(key, "storage key")),
+      };
+    }),
+    authorizationList: authorizationList.map(authorizationTupleFromRlp),
+  };
+
+  const signature = {
+    yParity: Number(fromRlpInteger(yParity, "y_parity")),
+    r: fromRlpInteger(r, "r"),
+    s: fromRlpInteger(s, "s"),
+  };
+  if (signature.yParity !== 0 && signature.yParity !== 1) {
+    throw new Error(`❌ Invalid SetCode transaction: y_parity ${signature.yParity} must be 0 or 1`);
+  }
+  const from = recoverAddress(setCodeTransactionSigningHash(tx), {
+    r: toBeHex(signature.r, 32),
+    s: toBeHex(signature.s, 32),
+    yParity: signature.yParity as 0 | 1,
+  });
+
+  return { ...tx, ...signature, from, hash: keccak256(bytes) };
+}
+
+/**
+ * Complete a request with chain id, nonce and fees from the network
+ * @dev Without a gas limit, the intrinsic gas model plus DEFAULT_EXECUTION_GAS is used
+ */
+export async function populateSetCodeTransaction(
+  sender: Signer,
+  request: SetCodeTransactionRequest,
+  options: Eip7702Options = {}
+): Promise<SetCodeTransaction> {
+  const provider = resolveProvider(sender, options);
+  const senderAddress = await sender.getAddress();
+  const feeData = await provider.getFeeData();
+
+  return {
+    chainId: request.chainId ?? (await provider.getNetwork()).chainId,
+    nonce: request.nonce ?? BigInt(await provider.getTransactionCount(senderAddress)),
+    maxPriorityFeePerGas: request.maxPriorityFeePerGas ?? feeData.maxPriorityFeePerGas ?? 2_000_000_000n,
+    maxFeePerGas: request.maxFeePerGas ?? feeData.maxFeePerGas ?? 50_000_000_000n,
+    gasLimit:
+      request.gasLimit ??
+      estimateSetCodeGasLimit({
+        data: request.data,
+        accessList: request.accessList,
+        authorizationCount: request.authorizationList.length,
+      }),
+    to: request.to,
+    value: request.value ?? 0n,
+    data: request.data ?? "0x",
+    accessList: request.accessList ?? [],
+    authorizationList: request.authorizationList.map((auth) => ("signature" in auth ? toAuthorizationTuple(auth) : auth)),
+  };
+}
+
+/**
+ * Sign a SetCode transaction locally and submit it with eth_sendRawTransaction
+ * @dev Works on any node, including ones that do not manage the sender's key
+ *      and ones whose eth_sendTransaction does not understand authorizationList
+ */
+export async function sendRawSetCodeTransaction(
+  sender: BaseWallet,
+  request: SetCodeTransactionRequest,
+  options: Eip7702Options = {}
+): Promise<TransactionReceipt> {
+  const provider = resolveProvider(sender, options);
+  if (!isRpcProvider(provider)) {
+    throw new Error("Provider cannot forward eth_sendRawTransaction");
+  }
+
+  const tx = await populateSetCodeTransaction(sender, request, { provider });
+  const raw = signSetCodeTransaction(tx, sender.signingKey);
+
+  const txHash: string = await provider.send("eth_sendRawTransaction", [raw]);
+  logger.transactionSent({
+    hash: txHash,
+    from: sender.address,
+    to: tx.to,
+    txType: SET_CODE_TX_TYPE,
+    authorizations: tx.authorizationList.length,
+  });
+  return waitForReceipt(provider, txHash);
+}
+
+function toRlpInteger(value: bigint): string {
+  return value === 0n ? "0x" : toBeHex(value);
+}
+
+function fromRlpInteger(value: RlpStructuredData, field: string): bigint {
+  const bytes = expectBytes(value, field);
+  if (bytes === "0x") return 0n;
+  if (bytes.startsWith("0x00")) {
+    throw new Error(`❌ Invalid SetCode transaction: ${field} has leading zero bytes`);
+  }
+  return BigInt(bytes);
+}
+
+function expectBytes(value: RlpStructuredData, field: string): string {
+  if (typeof value !== "string") {
+    throw new Error(`❌ Invalid SetCode transaction: ${field} must be an RLP byte string`);
+  }
+  return value;
+}
@@ -0,0 +1,132 @@
+import { BaseWallet, toQuantity } from "ethers";
+import type { Signer, TransactionReceipt } from "ethers";
+import { logger } from "../logger";
+import { toRpcAuthorization } from "./codec";
+import { estimateSetCodeGasLimit, minimumGasUsed } from "./gas";
+import { isRpcProvider, resolveProvider, waitForReceipt } from "./provider";
+import { sendRawSetCodeTransaction } from "./raw-transaction";
+import type { Authorization, SendType4TransactionOptions } from "./types";
+
+/**
+ * Send EIP-7702 transaction using Ethers.js v6
+ *
+ * @param signer The signer who sends the transaction (can be different from EOA for sponsored tx)
+ * @param eoaAddress The EOA address that has been delegated
+ * @param callData The encoded function call data
+ * @param authList Authorization list
+ * @param options.executionGas Gas budget for the call on top of the intrinsic gas (see gas.ts)
+ * @returns Transaction receipt
+ * @throws Error if the node charged less than the EIP-7702 intrinsic gas model allows
+ */
+export async function sendType4Transaction(
+  signer: Signer,
+  eoaAddress: string,
+  callData: string,
+  authList: Authorization[],
+  options: SendType4TransactionOptions = {}
+): Promise<TransactionReceipt> {
+  const receipt = await submitType4Transaction(signer, eoaAddress, callData, authList, options);
+  logger.receipt(`Type 0x04 transaction (${authList.length} authorization${authList.length === 1 ? "" : "s"})`, receipt);
+
+  // Whatever the call did, gas used cannot drop below the intrinsic gas minus the capped refund
+  const minimum = minimumGasUsed({ data: callData, authorizationCount: authList.length });
+  logger.detail("Minimum gas used (intrinsic gas model)", minimum);
+  if (receipt.gasUsed < minimum) {
+    throw new Error(
+      `❌ Gas used ${receipt.gasUsed} is below the EIP-7702 intrinsic gas minimum ${minimum} for ${authList.length} authorization(s)`
+    );
+  }
+  return receipt;
+}
+
+async function submitType4Transaction(
+  signer: Signer,
+  eoaAddress: string,
+  callData: string,
+  authList: Authorization[],
+  options: SendType4TransactionOptions
+): Promise<TransactionReceipt> {
+  const provider = resolveProvider(signer, options);
+  const signerAddress = await signer.getAddress();
+  const gasLimit = estimateSetCodeGasLimit({ data: callData, authorizationCount: authList.length }, options.executionGas);
+
+  try {
+    // Preferred path: let Ethers sign locally via signer.sendTransaction().
+    // This works for both Hardhat-managed signers and dynamically created wallets,
+    // and avoids HH103 ("Account is not managed by the node") when using eth_sendTransaction.
+    let txHash: string | undefined;
+    try {
+      const nonce = await provider.getTransactionCount(signerAddress);
+      const feeData = await provider.getFeeData();
+
+      const tx = await signer.sendTransaction({
+        to: eoaAddress,
+        data: callData,
+        nonce,
+        gasLimit,
+        maxPriorityFeePerGas: feeData.maxPriorityFeePerGas ?? 2_000_000_000n,
+        maxFeePerGas: feeData.maxFeePerGas ?? 50_000_000_000n,
+        type: 4,
+        authorizationList: authList,
+      });
+      txHash = tx.hash;
+    } catch (signedSendError: any) {
+      // Hardhat mines a reverting transaction and still rejects the request; its error carries the hash
+      txHash = signedSendError?.transactionHash;
+      if (!txHash) {
+        logger.warn(`signer.sendTransaction failed, falling back to a direct RPC call: ${signedSendError.message}`);
+      }
+    }
+
+    // Once broadcast, the transaction is final: falling back would send a second one with the
+    // next nonce and new authorizations, so return its receipt (reverted or not) or throw
+    if (txHash) {
+      logger.transactionSent({ hash: txHash, from: signerAddress, to: eoaAddress, txType: 4, authorizations: authList.length });
+      return await waitForReceipt(provider, txHash);
+    }
+
+    try {
+      // Locally held key: serialize and sign the type 0x04 payload ourselves, then eth_sendRawTransaction.
+      // This does not depend on the node's eth_sendTransaction understanding authorizationList.
+      if (signer instanceof BaseWallet) {
+        return await sendRawSetCodeTransaction(
+          signer,
+          { to: eoaAddress, data: callData, gasLimit, authorizationList: authList },
+          { provider }
+        );
+      }
+
+      // Node-managed key: only eth_sendTransaction can sign, so send the codec's RPC format
+      if (!isRpcProvider(provider)) {
+        throw new Error("Provider cannot forward eth_sendTransaction");
+      }
+      const formattedAuthList = authList.map(toRpcAuthorization);
+      const nonce = await provider.getTransactionCount(signerAddress);
+      const feeData = await provider.getFeeData();
+
+      const txParams = {
+        from: signerAddress,
+        to: eoaAddress,
+        data: callData,
+        nonce: toQuantity(nonce),
+        gas: toQuantity(gasLimit),
+        maxPriorityFeePerGas: toQuantity(feeData.maxPriorityFeePerGas ?? 2_000_000_000n),
+        maxFeePerGas: toQuantity(feeData.maxFeePerGas ?? 50_000_000_000n),
+        type: "0x4",
+        authorizationList: formattedAuthList,
+      };
+
+      const txHash: string = await provider.send("eth_sendTransaction", [txParams]);
+      logger.transactionSent({ hash: txHash, from: signerAddress, to: eoaAddress, txType: 4, authorizations: authList.length });
+      return await waitForReceipt(provider, txHash);
+    } catch (rpcError: any) {
+      logger.warn(
+        `Direct RPC failed: ${rpcError.message} (the node may not fully support EIP-7702 or has formatting requirements)`
+      );
+      throw rpcError;
+    }
+  } catch (error: any) {
+    logger.warn(`EIP-7702 transaction failed: ${error.message}`);
+    throw error;
+  }
+}
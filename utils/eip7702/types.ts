@@ -0,0 +1,48 @@
+import type { Provider, Signature, Signer } from "ethers";
+
+/**
+ * Signed EIP-7702 authorization tuple: [chain_id, address, nonce, y_parity, r, s]
+ * @dev Structurally compatible with ethers' own Authorization, so it can be passed
+ *      straight into a TransactionRequest.authorizationList
+ */
+export interface Authorization {
+  chainId: bigint;
+  address: string;
+  nonce: bigint;
+  signature: Signature;
+}
+
+/**
+ * Options shared by every helper that talks to the network
+ * @dev When provider is omitted, the signer's own provider is used
+ */
+export interface Eip7702Options {
+  provider?: Provider;
+}
+
+export interface CreateAuthorizationOptions extends Eip7702Options {
+  /**
+   * Whether a different wallet sends the type 0x04 transaction
+   * - false: the authority sends it itself, so its nonce is bumped before the list is processed
+   * - true: a sponsor sends it, so the authority's current nonce is used
+   */
+  sponsored?: boolean;
+}
+
+export interface EnsureDelegationOptions extends Eip7702Options {
+  // Label printed in the log output
+  label?: string;
+}
+
+export interface DelegateToOptions extends Eip7702Options {
+  // Sends the transaction and pays for it instead of the authority, which then signs a sponsored authorization
+  sponsor?: Signer;
+}
+
+export interface SendType4TransactionOptions extends Eip7702Options {
+  /**
+   * Gas budget for executing the call, added to the intrinsic gas of the
+   * calldata and authorization list to form the gas limit (see gas.ts)
+   */
+  executionGas?: bigint;
+}
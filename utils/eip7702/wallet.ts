@@ -0,0 +1,30 @@
+import { parseEther, Wallet } from "ethers";
+import type { HDNodeWallet, Signer } from "ethers";
+import { logger } from "../logger";
+import { resolveProvider } from "./provider";
+import type { Eip7702Options } from "./types";
+
+/**
+ * Create a funded wallet for testing
+ * @param funder Account that pays for the new wallet
+ * @param amount Amount in ETH to fund the wallet (default: 10)
+ * @returns New wallet with funds, connected to the resolved provider
+ */
+export async function createFundedWallet(
+  funder: Signer,
+  amount: string = "10",
+  options: Eip7702Options = {}
+): Promise<HDNodeWallet> {
+  const provider = resolveProvider(funder, options);
+  const wallet = Wallet.createRandom().connect(provider);
+
+  // Fund from funder and wait for confirmation
+  const tx = await funder.sendTransaction({
+    to: wallet.address,
+    value: parseEther(amount),
+  });
+  await tx.wait();  // Wait for transaction to be mined
+
+  logger.detail("New funded wallet", wallet.address);
+  return wallet;
+}
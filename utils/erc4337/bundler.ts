@@ -0,0 +1,91 @@
+import { Contract, isError } from "ethers";
+import type { ContractTransactionReceipt, ContractTransactionResponse, Log, LogDescription, Signer } from "ethers";
+import { logger } from "../logger";
+import type { UserOperation, UserOperationResult } from "./types";
+import { ENTRY_POINT_ABI, getUserOperationHash, packUserOperation } from "./user-operation";
+
+/**
+ * In-process stand-in for an ERC-4337 bundler
+ * @dev Does what a bundler does for a single mempool-less node: simulates handleOps first and rejects
+ *      the whole bundle if any operation fails validation (so the bundler never pays for it), then
+ *      submits the bundle from its own EOA and reports each operation's UserOperationEvent.
+ */
+export class LocalBundler {
+  private readonly entryPoint: Contract;
+
+  /**
+   * @param entryPointAddress EntryPoint the bundle is sent to
+   * @param signer Bundler EOA, pays the transaction gas
+   * @param beneficiary Receives the operations' gas payments (default: the bundler EOA)
+   */
+  constructor(
+    readonly entryPointAddress: string,
+    private readonly signer: Signer,
+    private readonly beneficiary?: string
+  ) {
+    this.entryPoint = new Contract(entryPointAddress, ENTRY_POINT_ABI, signer);
+  }
+
+  /**
+   * Simulate, then include a single UserOperation
+   */
+  async sendUserOperation(op: UserOperation): Promise<UserOperationResult> {
+    const [result] = await this.sendBundle([op]);
+    return result;
+  }
+
+  /**
+   * Simulate, then include several UserOperations in one handleOps transaction
+   * @throws When simulation fails, with the EntryPoint's FailedOp reason (e.g. "AA25 invalid account nonce")
+   */
+  async sendBundle(ops: UserOperation[]): Promise<UserOperationResult[]> {
+    const packed = ops.map(packUserOperation);
+    const beneficiary = this.beneficiary ?? (await this.signer.getAddress());
+    const { chainId } = await this.signer.provider!.getNetwork();
+    const hashes = ops.map((op) => getUserOperationHash(op, this.entryPointAddress, chainId));
+
+    try {
+      await this.entryPoint.handleOps.staticCall(packed, beneficiary);
+    } catch (error) {
+      throw new Error(`❌ UserOperation rejected by simulation: ${this.describeRevert(error)}`);
+    }
+
+    const tx: ContractTransactionResponse = await this.entryPoint.handleOps(packed, beneficiary);
+    logger.transactionSent({ hash: tx.hash, from: beneficiary, to: this.entryPointAddress, txType: tx.type, authorizations: 0 });
+    const receipt: ContractTransactionReceipt | null = await tx.wait();
+    if (!receipt) throw new Error("No receipt");
+    logger.receipt(`handleOps (${ops.length} UserOperation${ops.length === 1 ? "" : "s"})`, receipt);
+
+    const events: LogDescription[] = receipt.logs
+      .filter((log: Log) => log.address.toLowerCase() === this.entryPointAddress.toLowerCase())
+      .map((log: Log) => this.entryPoint.interface.parseLog(log))
+      .filter((event: LogDescription | null): event is LogDescription => event !== null);
+
+    return hashes.map((userOpHash) => {
+      const executed = events.find((event) => event.name === "UserOperationEvent" && event.args.userOpHash === userOpHash);
+      if (!executed) throw new Error(`❌ No UserOperationEvent for ${userOpHash}`);
+      const reverted = events.find((event) => event.name === "UserOperationRevertReason" && event.args.userOpHash === userOpHash);
+      return {
+        userOpHash,
+        success: executed.args.success,
+        actualGasCost: executed.args.actualGasCost,
+        actualGasUsed: executed.args.actualGasUsed,
+        ...(reverted ? { revertReason: reverted.args.revertReason } : {}),
+        receipt,
+      };
+    });
+  }
+
+  // FailedOp / FailedOpWithRevert as "AAxx reason", anything else as the provider's message
+  private describeRevert(error: unknown): string {
+    if (!(error instanceof Error)) return String(error);
+    const details = error as Error & { data?: string; error?: { data?: string }; shortMessage?: string };
+    const data = details.data ?? details.error?.data;
+    const revert = isError(error, "CALL_EXCEPTION") ? error.revert : null;
+    const decoded = revert ?? (data ? this.entryPoint.interface.parseError(data) : null);
+    if (decoded && (decoded.name === "FailedOp" || decoded.name === "FailedOpWithRevert")) {
+      return decoded.args[1];
+    }
+    return details.shortMessage ?? error.message.split("\n")[0];
+  }
+}
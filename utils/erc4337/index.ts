@@ -0,0 +1,3 @@
+export * from "./types";
+export * from "./user-operation";
+export * from "./bundler";
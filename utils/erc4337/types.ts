@@ -0,0 +1,50 @@
+import type { TransactionReceipt } from "ethers";
+
+/**
+ * ERC-4337 v0.8 UserOperation in its unpacked form (what a bundler RPC takes)
+ * @dev paymaster fields are either all set or all omitted
+ */
+export interface UserOperation {
+  sender: string;
+  nonce: bigint;
+  callData: string;
+  callGasLimit: bigint;
+  verificationGasLimit: bigint;
+  preVerificationGas: bigint;
+  maxFeePerGas: bigint;
+  maxPriorityFeePerGas: bigint;
+  paymaster?: string;
+  paymasterVerificationGasLimit?: bigint;
+  paymasterPostOpGasLimit?: bigint;
+  paymasterData?: string;
+  signature: string;
+}
+
+/**
+ * PackedUserOperation struct as passed to EntryPoint.handleOps
+ */
+export interface PackedUserOperation {
+  sender: string;
+  nonce: bigint;
+  initCode: string;
+  callData: string;
+  accountGasLimits: string;
+  preVerificationGas: bigint;
+  gasFees: string;
+  paymasterAndData: string;
+  signature: string;
+}
+
+/**
+ * Outcome of one UserOperation included by the local bundler
+ */
+export interface UserOperationResult {
+  userOpHash: string;
+  // Whether the callData execution succeeded (validation failures never reach a receipt)
+  success: boolean;
+  actualGasCost: bigint;
+  actualGasUsed: bigint;
+  // Raw revert data of the callData execution, when it reverted with data
+  revertReason?: string;
+  receipt: TransactionReceipt;
+}
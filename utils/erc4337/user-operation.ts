@@ -0,0 +1,108 @@
+import { concat, getBytes, toBeHex, TypedDataEncoder, zeroPadValue } from "ethers";
+import type { SigningKey } from "ethers";
+import type { PackedUserOperation, UserOperation } from "./types";
+
+/**
+ * Minimal EntryPoint v0.8 ABI used by the helpers and the local bundler
+ */
+export const ENTRY_POINT_ABI = [
+  "function handleOps((address sender,uint256 nonce,bytes initCode,bytes callData,bytes32 accountGasLimits,uint256 preVerificationGas,bytes32 gasFees,bytes paymasterAndData,bytes signature)[] ops, address beneficiary)",
+  "function getUserOpHash((address sender,uint256 nonce,bytes initCode,bytes callData,bytes32 accountGasLimits,uint256 preVerificationGas,bytes32 gasFees,bytes paymasterAndData,bytes signature) userOp) view returns (bytes32)",
+  "function getNonce(address sender, uint192 key) view returns (uint256)",
+  "function balanceOf(address account) view returns (uint256)",
+  "event UserOperationEvent(bytes32 indexed userOpHash, address indexed sender, address indexed paymaster, uint256 nonce, bool success, uint256 actualGasCost, uint256 actualGasUsed)",
+  "event UserOperationRevertReason(bytes32 indexed userOpHash, address indexed sender, uint256 nonce, bytes revertReason)",
+  "error FailedOp(uint256 opIndex, string reason)",
+  "error FailedOpWithRevert(uint256 opIndex, string reason, bytes inner)",
+];
+
+// EIP-712 type of the UserOperation hash (UserOperationLib.PACKED_USEROP_TYPEHASH), without the signature
+const PACKED_USER_OPERATION_TYPES = {
+  PackedUserOperation: [
+    { name: "sender", type: "address" },
+    { name: "nonce", type: "uint256" },
+    { name: "initCode", type: "bytes" },
+    { name: "callData", type: "bytes" },
+    { name: "accountGasLimits", type: "bytes32" },
+    { name: "preVerificationGas", type: "uint256" },
+    { name: "gasFees", type: "bytes32" },
+    { name: "paymasterAndData", type: "bytes" },
+  ],
+};
+
+/**
+ * Gas fields for a UserOperation on a local network, generous enough for simple calls
+ */
+export const DEFAULT_USER_OPERATION_GAS = {
+  callGasLimit: 200_000n,
+  verificationGasLimit: 150_000n,
+  preVerificationGas: 50_000n,
+  paymasterVerificationGasLimit: 100_000n,
+  paymasterPostOpGasLimit: 0n,
+};
+
+/**
+ * Pack two 128-bit values into one bytes32, high half first (accountGasLimits, gasFees)
+ */
+export function packUint128Pair(high: bigint, low: bigint): string {
+  const limit = 1n << 128n;
+  if (high < 0n || high >= limit || low < 0n || low >= limit) {
+    throw new Error(`❌ Value does not fit in 128 bits: ${high >= limit || high < 0n ? high : low}`);
+  }
+  return zeroPadValue(toBeHex((high << 128n) | low), 32);
+}
+
+/**
+ * Pack a UserOperation into the struct the EntryPoint takes
+ * @dev initCode is always empty: a delegated EOA already has code, so nothing is deployed
+ */
+export function packUserOperation(op: UserOperation): PackedUserOperation {
+  let paymasterAndData = "0x";
+  if (op.paymaster) {
+    paymasterAndData = concat([
+      op.paymaster,
+      zeroPadValue(toBeHex(op.paymasterVerificationGasLimit ?? 0n), 16),
+      zeroPadValue(toBeHex(op.paymasterPostOpGasLimit ?? 0n), 16),
+      op.paymasterData ?? "0x",
+    ]);
+  }
+
+  return {
+    sender: op.sender,
+    nonce: op.nonce,
+    initCode: "0x",
+    callData: op.callData,
+    accountGasLimits: packUint128Pair(op.verificationGasLimit, op.callGasLimit),
+    preVerificationGas: op.preVerificationGas,
+    gasFees: packUint128Pair(op.maxPriorityFeePerGas, op.maxFeePerGas),
+    paymasterAndData,
+    signature: op.signature,
+  };
+}
+
+/**
+ * EntryPoint v0.8 UserOperation hash: EIP-712 typed data hash under the ("ERC4337", "1") domain
+ * @param entryPoint EntryPoint address (verifyingContract)
+ */
+export function getUserOperationHash(op: UserOperation, entryPoint: string, chainId: bigint): string {
+  const { signature: _signature, ...packed } = packUserOperation(op);
+  return TypedDataEncoder.hash(
+    { name: "ERC4337", version: "1", chainId, verifyingContract: entryPoint },
+    PACKED_USER_OPERATION_TYPES,
+    packed
+  );
+}
+
+/**
+ * Sign a UserOperation with the account's key (raw ECDSA over the hash, no message prefix)
+ * @returns Copy of the operation with its signature set
+ */
+export function signUserOperation(
+  op: UserOperation,
+  signingKey: SigningKey,
+  entryPoint: string,
+  chainId: bigint
+): UserOperation {
+  const hash = getUserOperationHash(op, entryPoint, chainId);
+  return { ...op, signature: signingKey.sign(getBytes(hash)).serialized };
+}
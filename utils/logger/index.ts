@@ -0,0 +1,3 @@
+export * from "./types";
+export * from "./sinks";
+export * from "./logger";
@@ -0,0 +1,169 @@
+import { ConsoleSink, isLogLevel, JsonLinesSink } from "./sinks";
+import type { LogContext, LogEventPayload, LoggedReceipt, LogLevel, LogSink, ReportEnvironmentEvent } from "./types";
+
+/**
+ * Leveled, structured logger shared by tests, helpers and the report generator
+ * @dev Every call becomes one LogEvent stamped with the running suite/test, handed to
+ *      every sink. The console sink filters by level; the JSON-lines sink and the
+ *      report recorder see everything.
+ */
+export class TestLogger {
+  private readonly sinks: LogSink[] = [];
+  private readonly scopes: string[] = [];
+  private test?: string;
+
+  constructor(sinks: LogSink[] = []) {
+    this.sinks.push(...sinks);
+  }
+
+  addSink(sink: LogSink): void {
+    if (!this.sinks.includes(sink)) this.sinks.push(sink);
+  }
+
+  removeSink(sink: LogSink): void {
+    const index = this.sinks.indexOf(sink);
+    if (index >= 0) this.sinks.splice(index, 1);
+  }
+
+  enterSuite(fullTitle: string): void {
+    this.scopes.push(fullTitle);
+  }
+
+  leaveSuite(fullTitle: string): void {
+    if (this.scopes[this.scopes.length - 1] === fullTitle) {
+      this.scopes.pop();
+    }
+  }
+
+  startTest(fullTitle: string): void {
+    this.test = fullTitle;
+  }
+
+  endTest(fullTitle: string): void {
+    // Statically skipped tests end without having started, so only clear a matching test
+    if (this.test === fullTitle) {
+      this.test = undefined;
+    }
+  }
+
+  context(): LogContext {
+    return {
+      ...(this.scopes.length > 0 ? { suite: this.scopes[0], scope: this.scopes[this.scopes.length - 1] } : {}),
+      ...(this.test ? { test: this.test } : {}),
+    };
+  }
+
+  emit(payload: LogEventPayload): void {
+    const event = { ...payload, timestamp: new Date().toISOString(), context: this.context() };
+    for (const sink of this.sinks) {
+      sink.write(event);
+    }
+  }
+
+  /**
+   * Open a step of a test: printed as a 【title】 banner
+   */
+  section(title: string): void {
+    this.emit({ type: "section", title });
+  }
+
+  info(text: string): void {
+    this.emit({ type: "message", text });
+  }
+
+  /**
+   * Intermediate value only shown in verbose mode (addresses, codes before a change, ...)
+   */
+  detail(label: string, value: unknown): void {
+    this.emit({ type: "detail", label, value: String(value) });
+  }
+
+  /**
+   * Observation that belongs in the test's report block (values read back, nonces, ...)
+   */
+  note(label: string, value: unknown): void {
+    this.emit({ type: "note", label, value: String(value) });
+  }
+
+  warn(text: string): void {
+    this.emit({ type: "warning", text });
+  }
+
+  authorizationCreated(authorization: {
+    authority: string;
+    delegate: string;
+    chainId: bigint;
+    nonce: bigint | number;
+    sponsored: boolean;
+  }): void {
+    this.emit({
+      type: "authorization-created",
+      ...authorization,
+      chainId: authorization.chainId.toString(),
+      nonce: authorization.nonce.toString(),
+    });
+  }
+
+  transactionSent(transaction: { hash: string; from: string; to: string; txType: number; authorizations?: number }): void {
+    this.emit({ type: "transaction-sent", authorizations: 0, ...transaction });
+  }
+
+  /**
+   * Mined transaction; lands in the test's report block with hash, block and gas
+   */
+  receipt(label: string, receipt: LoggedReceipt): void {
+    this.emit({
+      type: "receipt-confirmed",
+      label,
+      hash: receipt.hash,
+      blockNumber: receipt.blockNumber,
+      gasUsed: receipt.gasUsed.toString(),
+      status: receipt.status,
+      txType: receipt.type,
+      from: receipt.from,
+      to: receipt.to,
+    });
+  }
+
+  /**
+   * Code read back from an account, compared (case-insensitively) when an expectation is given
+   * @returns Whether the code matches the expectation (true when there is none)
+   */
+  codeChecked(address: string, code: string, expected?: string): boolean {
+    const matches = expected === undefined || code.toLowerCase() === expected.toLowerCase();
+    this.emit({
+      type: "code-checked",
+      address,
+      code: code.toLowerCase(),
+      ...(expected === undefined ? {} : { expected: expected.toLowerCase(), matches }),
+    });
+    return matches;
+  }
+
+  /**
+   * Network, chain id and account roles of the current top-level suite
+   */
+  environment(environment: Omit<ReportEnvironmentEvent, "type">): void {
+    this.emit({ type: "environment", ...environment });
+  }
+
+  suiteSkipped(reason: string): void {
+    this.emit({ type: "suite-skipped", reason });
+  }
+}
+
+/**
+ * Logger configured from the environment:
+ *   EIP_LOG_LEVEL=quiet|normal|verbose  console verbosity (default: normal)
+ *   EIP_LOG_FILE=<path>                 also append every event as JSON lines to <path>
+ */
+export function createLogger(env: NodeJS.ProcessEnv = process.env): TestLogger {
+  const level: LogLevel = isLogLevel(env.EIP_LOG_LEVEL) ? env.EIP_LOG_LEVEL : "normal";
+  const sinks: LogSink[] = [new ConsoleSink(level)];
+  if (env.EIP_LOG_FILE) {
+    sinks.push(new JsonLinesSink(env.EIP_LOG_FILE));
+  }
+  return new TestLogger(sinks);
+}
+
+export const logger = createLogger();
@@ -0,0 +1,99 @@
+import fs from "fs";
+import path from "path";
+import type { LogEvent, LogEventType, LogLevel, LogSink } from "./types";
+
+// Lowest level at which each event type is printed on the console
+const EVENT_LEVEL: Record<LogEventType, LogLevel> = {
+  warning: "quiet",
+  "suite-skipped": "quiet",
+  section: "normal",
+  message: "normal",
+  note: "normal",
+  "receipt-confirmed": "normal",
+  "code-checked": "normal",
+  environment: "normal",
+  detail: "verbose",
+  "authorization-created": "verbose",
+  "transaction-sent": "verbose",
+};
+
+const LEVEL_ORDER: LogLevel[] = ["quiet", "normal", "verbose"];
+
+export function isLogLevel(value: string | undefined): value is LogLevel {
+  return LEVEL_ORDER.includes(value as LogLevel);
+}
+
+/**
+ * Human readable output, filtered by level (the default test narration)
+ */
+export class ConsoleSink implements LogSink {
+  constructor(
+    private readonly level: LogLevel,
+    private readonly print: (line: string) => void = (line) => console.log(line)
+  ) {}
+
+  write(event: LogEvent): void {
+    if (LEVEL_ORDER.indexOf(EVENT_LEVEL[event.type]) > LEVEL_ORDER.indexOf(this.level)) return;
+    for (const line of formatEvent(event)) {
+      this.print(line);
+    }
+  }
+}
+
+/**
+ * One JSON object per line and event, unfiltered, for CI and tooling
+ */
+export class JsonLinesSink implements LogSink {
+  constructor(private readonly file: string) {
+    fs.mkdirSync(path.dirname(file), { recursive: true });
+  }
+
+  write(event: LogEvent): void {
+    fs.appendFileSync(this.file, JSON.stringify(event) + "\n");
+  }
+}
+
+/**
+ * Console lines for an event
+ */
+export function formatEvent(event: LogEvent): string[] {
+  switch (event.type) {
+    case "section":
+      return ["", `    【${event.title}】`];
+    case "message":
+      return [`    ${event.text}`];
+    case "detail":
+    case "note":
+      return [`    ${event.label}: ${event.value}`];
+    case "warning":
+      return [`    ⚠️  ${event.text}`];
+    case "authorization-created":
+      return [
+        `    ✓ Authorization signed: ${event.authority} -> ${event.delegate} ` +
+          `(chain ${event.chainId}, nonce ${event.nonce}${event.sponsored ? ", sponsored" : ""})`,
+      ];
+    case "transaction-sent":
+      return [
+        `    ✓ Type 0x0${event.txType} transaction sent: ${event.hash} ` +
+          `(${event.authorizations} authorization${event.authorizations === 1 ? "" : "s"})`,
+      ];
+    case "receipt-confirmed":
+      return [
+        `    ${event.status === 1 ? "✓" : "✗"} ${event.label}: block ${event.blockNumber}, gas ${event.gasUsed}, ` +
+          `type ${event.txType}, status ${event.status} (${event.hash})`,
+      ];
+    case "code-checked":
+      return [
+        `    Code at ${event.address}: ${event.code === "0x" ? "0x (empty, normal EOA)" : event.code}` +
+          (event.expected === undefined ? "" : event.matches ? " ✓ as expected" : ` ✗ expected ${event.expected}`),
+      ];
+    case "environment":
+      return [
+        "",
+        `  === Test Environment: ${event.network} (Chain ID ${event.chainId}) ===`,
+        ...Object.entries(event.accounts).map(([role, address]) => `    ${role}: ${address}`),
+      ];
+    case "suite-skipped":
+      return [`    skipped: unsupported by node — ${event.reason}`];
+  }
+}
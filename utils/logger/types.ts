@@ -0,0 +1,81 @@
+import type { TransactionReceipt } from "ethers";
+
+/**
+ * Console verbosity:
+ *   quiet   warnings and skipped suites only
+ *   normal  section banners, narration, receipts, checks and noted values (default)
+ *   verbose everything, including per-step details (authorizations, sent transactions, raw values)
+ */
+export type LogLevel = "quiet" | "normal" | "verbose";
+
+/**
+ * Where an event happened; set by the Mocha reporter as suites and tests start and end
+ */
+export interface LogContext {
+  // Top-level describe title, e.g. "EIP-7702 Complete Test Suite"
+  suite?: string;
+  // Full title of the innermost running describe (hooks run here)
+  scope?: string;
+  // Full title of the running test, unset inside hooks
+  test?: string;
+}
+
+/**
+ * Receipt fields logger.receipt() records; any ethers receipt satisfies it
+ */
+export type LoggedReceipt = Pick<TransactionReceipt, "hash" | "blockNumber" | "gasUsed" | "status" | "type" | "from" | "to">;
+
+export interface ReportEnvironmentEvent {
+  type: "environment";
+  network: string;
+  chainId: string;
+  // Role -> address, e.g. { Owner: "0x…", "Account A": "0x…" }
+  accounts: Record<string, string>;
+}
+
+export type LogEventPayload =
+  // 【Title】 banner opening a step of a test
+  | { type: "section"; title: string }
+  | { type: "message"; text: string }
+  // Label/value pair only worth printing in verbose mode
+  | { type: "detail"; label: string; value: string }
+  // Label/value pair that also lands in the test's report block
+  | { type: "note"; label: string; value: string }
+  | { type: "warning"; text: string }
+  | {
+      type: "authorization-created";
+      authority: string;
+      delegate: string;
+      chainId: string;
+      nonce: string;
+      sponsored: boolean;
+    }
+  | { type: "transaction-sent"; hash: string; from: string; to: string; txType: number; authorizations: number }
+  | {
+      type: "receipt-confirmed";
+      label: string;
+      hash: string;
+      blockNumber: number;
+      gasUsed: string;
+      status: number | null;
+      txType: number;
+      from: string;
+      to: string | null;
+    }
+  | { type: "code-checked"; address: string; code: string; expected?: string; matches?: boolean }
+  | ReportEnvironmentEvent
+  | { type: "suite-skipped"; reason: string };
+
+export type LogEvent = LogEventPayload & {
+  timestamp: string;
+  context: LogContext;
+};
+
+export type LogEventType = LogEvent["type"];
+
+/**
+ * Destination of log events (console, JSON-lines file, report recorder)
+ */
+export interface LogSink {
+  write(event: LogEvent): void;
+}
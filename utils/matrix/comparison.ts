@@ -0,0 +1,52 @@
+import { comparisonHeader, comparisonRow, reportName } from "../report";
+import type { SuiteReport } from "../report";
+import type { MatrixRun } from "./types";
+
+/**
+ * Render the "Multi-Network Comparison" table of every suite across all matrix runs
+ * @dev Rows use the matrix label (e.g. hardhat@cancun) as network name, so two entries
+ *      on the same Hardhat network stay distinguishable
+ */
+export function renderMatrixComparison(runs: MatrixRun[]): string {
+  const suites = new Map<string, SuiteReport>();
+  for (const run of runs) {
+    for (const report of run.reports) {
+      if (!suites.has(report.slug)) suites.set(report.slug, report);
+    }
+  }
+
+  const lines = ["# Multi-Network Comparison", "", `Entries: ${runs.map((run) => `\`${run.entry.label}\``).join(", ")}`, ""];
+  if (suites.size === 0) {
+    lines.push("No suite produced a report.", "");
+  }
+
+  for (const [slug, sample] of suites) {
+    lines.push(`## ${reportName(sample)}`, "", ...comparisonHeader(sample));
+    for (const run of runs) {
+      const report = run.reports.find((candidate) => candidate.slug === slug);
+      if (report) {
+        lines.push(comparisonRow({ ...report, environment: { ...report.environment, network: run.entry.label } }));
+      } else {
+        const reason = run.error ?? "suite did not run";
+        lines.push(`| \`${run.entry.label}\` | N/A | ❌ **Run failed** | ${reason.replace(/\|/g, "\\|")} | None |`);
+      }
+    }
+    lines.push("");
+  }
+
+  return lines.join("\n");
+}
+
+/**
+ * Pass/fail/skip counts per entry, across all suites of the run
+ */
+export function summarizeRun(run: MatrixRun): { passed: number; failed: number; pending: number } {
+  return run.reports.reduce(
+    (sum, report) => ({
+      passed: sum.passed + report.totals.passed,
+      failed: sum.failed + report.totals.failed,
+      pending: sum.pending + report.totals.pending,
+    }),
+    { passed: 0, failed: 0, pending: 0 }
+  );
+}
@@ -0,0 +1,31 @@
+import type { MatrixEntry } from "./types";
+
+// Pseudo-network that makes the runner start its own JSON-RPC node
+const LOCAL_NODE = "node";
+
+/**
+ * Parse a comma-separated matrix specification, e.g. "hardhat,hardhat@cancun,node@prague,devnet"
+ * @throws Error if an entry is empty or pins a hardfork on a remote network
+ */
+export function parseMatrixEntries(spec: string): MatrixEntry[] {
+  return spec
+    .split(",")
+    .map((part) => part.trim())
+    .filter(Boolean)
+    .map((label) => {
+      const [name, hardfork, ...rest] = label.split("@");
+      if (!name || rest.length > 0 || hardfork === "") {
+        throw new Error(`❌ Invalid matrix entry "${label}": expected <network> or <network>@<hardfork>`);
+      }
+      if (hardfork && name !== "hardhat" && name !== LOCAL_NODE) {
+        throw new Error(`❌ Invalid matrix entry "${label}": only "hardhat" and "${LOCAL_NODE}" can be pinned to a hardfork`);
+      }
+      const startsNode = name === LOCAL_NODE;
+      return {
+        label,
+        network: startsNode ? "localhost" : name,
+        ...(hardfork ? { hardfork } : {}),
+        startsNode,
+      };
+    });
+}
@@ -0,0 +1,4 @@
+export * from "./types";
+export * from "./entries";
+export * from "./comparison";
+export * from "./runner";
@@ -0,0 +1,127 @@
+import { spawn } from "child_process";
+import type { ChildProcess } from "child_process";
+import fs from "fs";
+import path from "path";
+import { JsonRpcProvider } from "ethers";
+import type { SuiteReport } from "../report";
+import type { MatrixEntry, MatrixOptions, MatrixRun } from "./types";
+
+// Hardhat CLI entry point, run with the current node binary (no npx wrapper, so child pids are ours)
+const HARDHAT_CLI = require.resolve("hardhat/internal/cli/cli");
+
+// Lines of child output kept to explain a run that produced no report
+const OUTPUT_TAIL_LINES = 20;
+
+/**
+ * Run the selected suites on every matrix entry, one after another
+ * @dev Each entry is a separate `hardhat test` process, because a Hardhat runtime is bound
+ *      to a single network. Reports are read back from the JSON files of utils/report.
+ */
+export async function runMatrix(options: MatrixOptions): Promise<MatrixRun[]> {
+  const runs: MatrixRun[] = [];
+  for (const entry of options.entries) {
+    console.log(`\n=== Matrix entry: ${entry.label} ===`);
+    runs.push(await runEntry(entry, options));
+  }
+  return runs;
+}
+
+async function runEntry(entry: MatrixEntry, options: MatrixOptions): Promise<MatrixRun> {
+  const reportDir = path.join(options.outputDir, "runs", entry.label.replace(/[^\w.-]+/g, "_"));
+  fs.rmSync(reportDir, { recursive: true, force: true });
+
+  const env = {
+    ...process.env,
+    EIP_REPORT_DIR: reportDir,
+    ...(entry.hardfork ? { HARDHAT_HARDFORK: entry.hardfork } : {}),
+  };
+
+  let node: ChildProcess | undefined;
+  try {
+    if (entry.startsNode) {
+      node = await startLocalNode(options, env);
+    }
+    const { exitCode, outputTail } = await runHardhat(
+      ["--config", options.configFile, "test", ...options.suites, "--network", entry.network],
+      env
+    );
+    const reports = readReports(reportDir);
+    return {
+      entry,
+      reports,
+      exitCode,
+      ...(reports.length === 0 ? { error: lastErrorLine(outputTail) } : {}),
+    };
+  } catch (error: any) {
+    return { entry, reports: [], exitCode: null, error: error?.message ?? String(error) };
+  } finally {
+    node?.kill();
+  }
+}
+
+function runHardhat(args: string[], env: NodeJS.ProcessEnv): Promise<{ exitCode: number | null; outputTail: string[] }> {
+  return new Promise((resolve, reject) => {
+    const child = spawn(process.execPath, [HARDHAT_CLI, ...args], { env, stdio: ["ignore", "pipe", "pipe"] });
+    const tail: string[] = [];
+    const collect = (chunk: Buffer, stream: NodeJS.WriteStream) => {
+      stream.write(chunk);
+      tail.push(...chunk.toString().split("\n").filter((line) => line.trim()));
+      tail.splice(0, Math.max(0, tail.length - OUTPUT_TAIL_LINES));
+    };
+    child.stdout?.on("data", (chunk: Buffer) => collect(chunk, process.stdout));
+    child.stderr?.on("data", (chunk: Buffer) => collect(chunk, process.stderr));
+    child.on("error", reject);
+    child.on("close", (exitCode) => resolve({ exitCode, outputTail: tail }));
+  });
+}
+
+/**
+ * Start `hardhat node` (honouring HARDHAT_HARDFORK) and wait until it answers JSON-RPC
+ */
+async function startLocalNode(options: MatrixOptions, env: NodeJS.ProcessEnv): Promise<ChildProcess> {
+  const port = options.nodePort ?? 8545;
+  const node = spawn(process.execPath, [HARDHAT_CLI, "--config", options.configFile, "node", "--port", String(port)], {
+    env,
+    stdio: "ignore",
+  });
+
+  const provider = new JsonRpcProvider(`http://127.0.0.1:${port}`, undefined, { staticNetwork: true });
+  try {
+    for (let i = 0; i < 60; i++) {
+      if (node.exitCode !== null) {
+        throw new Error(`local node exited with code ${node.exitCode} (is port ${port} already in use?)`);
+      }
+      try {
+        await provider.send("eth_chainId", []);
+        return node;
+      } catch {
+        await new Promise((resolve) => setTimeout(resolve, 1000));
+      }
+    }
+    throw new Error(`local node did not answer on port ${port} within 60 seconds`);
+  } catch (error) {
+    node.kill();
+    throw error;
+  } finally {
+    provider.destroy();
+  }
+}
+
+function readReports(reportDir: string): SuiteReport[] {
+  if (!fs.existsSync(reportDir)) return [];
+  // The reporter writes to <EIP_REPORT_DIR>/<network>/<suite>.json
+  return fs
+    .readdirSync(reportDir)
+    .flatMap((network) => {
+      const dir = path.join(reportDir, network);
+      return fs.statSync(dir).isDirectory()
+        ? fs.readdirSync(dir).filter((file) => file.endsWith(".json")).map((file) => path.join(dir, file))
+        : [];
+    })
+    .map((file) => JSON.parse(fs.readFileSync(file, "utf8")) as SuiteReport);
+}
+
+function lastErrorLine(lines: string[]): string {
+  const error = [...lines].reverse().find((line) => /error/i.test(line));
+  return (error ?? lines[lines.length - 1] ?? "no output").trim().slice(0, 200);
+}
@@ -0,0 +1,37 @@
+import type { SuiteReport } from "../report";
+
+/**
+ * One column of the matrix: a configured network, optionally pinned to a hardfork
+ *   "devnet"          -> hardhat.config.ts network as configured
+ *   "hardhat@cancun"  -> in-process Hardhat network running the Cancun hardfork
+ *   "node@cancun"     -> local JSON-RPC node (`hardhat node`) started by the runner, tested via `localhost`
+ */
+export interface MatrixEntry {
+  // Label shown in the comparison table, exactly as given on the command line
+  label: string;
+  // Network passed to `hardhat test --network`
+  network: string;
+  hardfork?: string;
+  // Whether the runner starts a local `hardhat node` for this entry
+  startsNode: boolean;
+}
+
+export interface MatrixRun {
+  entry: MatrixEntry;
+  // Suite reports read back from the child run's JSON output
+  reports: SuiteReport[];
+  // Set when the run produced no report at all (config error, unreachable RPC, ...)
+  error?: string;
+  exitCode: number | null;
+}
+
+export interface MatrixOptions {
+  entries: MatrixEntry[];
+  // Test files to run on every entry; empty runs the whole test directory
+  suites: string[];
+  outputDir: string;
+  // Hardhat config file of the calling process, so children load the same configuration
+  configFile: string;
+  // Port used for entries that start a local node (default: 8545, the `localhost` network)
+  nodePort?: number;
+}
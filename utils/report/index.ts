@@ -0,0 +1,5 @@
+export * from "./types";
+export * from "./recorder";
+export * from "./markdown";
+export * from "./junit";
+export * from "./slug";
@@ -0,0 +1,71 @@
+import type { ReportRecord, SuiteReport } from "./types";
+
+/**
+ * Render suite reports as JUnit XML (one <testsuite> per EIP suite)
+ * @dev Recorded transactions and notes go to <system-out> so CI viewers show them per test case
+ */
+export function renderJUnitReport(reports: SuiteReport[]): string {
+  const totals = reports.reduce(
+    (sum, report) => ({
+      tests: sum.tests + report.totals.passed + report.totals.failed + report.totals.pending,
+      failures: sum.failures + report.totals.failed,
+      skipped: sum.skipped + report.totals.pending,
+    }),
+    { tests: 0, failures: 0, skipped: 0 }
+  );
+
+  const lines = [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<testsuites name="EIP tests" tests="${totals.tests}" failures="${totals.failures}" skipped="${totals.skipped}">`,
+  ];
+
+  for (const report of reports) {
+    const tests = report.dimensions.flatMap((dimension) => dimension.tests.map((test) => ({ dimension, test })));
+    const time = tests.reduce((sum, { test }) => sum + test.durationMs, 0) / 1000;
+    lines.push(
+      `  <testsuite name="${xml(report.title)}" tests="${tests.length}" failures="${report.totals.failed}" skipped="${report.totals.pending}" time="${time}" timestamp="${xml(report.generatedAt)}">`,
+      "    <properties>",
+      `      <property name="network" value="${xml(report.environment.network)}"/>`,
+      `      <property name="chainId" value="${xml(report.environment.chainId)}"/>`,
+      "    </properties>"
+    );
+    for (const { dimension, test } of tests) {
+      lines.push(`    <testcase classname="${xml(`${report.title}.${dimension.title}`)}" name="${xml(test.title)}" time="${test.durationMs / 1000}">`);
+      if (test.state === "failed") {
+        const message = test.error?.split("\n")[0] ?? "failed";
+        lines.push(`      <failure message="${xml(message)}">${xml(test.error ?? "")}</failure>`);
+      } else if (test.state === "pending") {
+        lines.push(report.skipReason ? `      <skipped message="${xml(`unsupported by node: ${report.skipReason}`)}"/>` : "      <skipped/>");
+      }
+      if (test.records.length > 0) {
+        lines.push(`      <system-out>${xml(test.records.map(formatRecord).join("\n"))}</system-out>`);
+      }
+      lines.push("    </testcase>");
+    }
+    lines.push("  </testsuite>");
+  }
+
+  lines.push("</testsuites>", "");
+  return lines.join("\n");
+}
+
+function formatRecord(record: ReportRecord): string {
+  switch (record.kind) {
+    case "transaction":
+      return `${record.label}: hash=${record.hash} block=${record.blockNumber} gasUsed=${record.gasUsed} status=${record.status}`;
+    case "note":
+      return `${record.label}: ${record.value}`;
+    case "skip":
+      return `skipped: ${record.reason}`;
+  }
+}
+
+function xml(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    // Control characters (ANSI colour codes in error messages) are not allowed in XML 1.0
+    .replace(/[\u0000-\u0008\u000b\u000c\u000e-\u001f]/g, "");
+}
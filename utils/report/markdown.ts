@@ -0,0 +1,202 @@
+import type { DimensionResult, ReportRecord, SuiteReport, TestResult, TestState } from "./types";
+
+const STATE_LABEL: Record<TestState, string> = {
+  passed: "✅ Passed",
+  failed: "❌ Failed",
+  pending: "⏭️ Skipped",
+};
+
+/**
+ * Human readable EIP name from the suite title: "EIP-7702 Complete Test Suite" -> "EIP-7702"
+ */
+export function reportName(report: SuiteReport): string {
+  return report.title.replace(/\s*(Complete\s+)?Test Suite$/i, "").trim() || report.title;
+}
+
+/**
+ * Overall support level of a network for the suite's EIP
+ */
+export function supportLevel(report: SuiteReport): "Full" | "Partial" | "None" {
+  const { passed } = report.totals;
+  const total = countTests(report);
+  if (total > 0 && passed === total) return "Full";
+  if (passed > 0) return "Partial";
+  return "None";
+}
+
+/**
+ * Most frequent failure (or skip) reason, reduced to its first line
+ */
+export function primaryFailureReason(report: SuiteReport): string {
+  if (report.skipReason) return report.skipReason;
+  const counts = new Map<string, number>();
+  for (const test of allTests(report)) {
+    if (test.state !== "failed" || !test.error) continue;
+    const reason = test.error.split("\n")[0];
+    counts.set(reason, (counts.get(reason) ?? 0) + 1);
+  }
+  const [top] = [...counts.entries()].sort((a, b) => b[1] - a[1]);
+  return top ? top[0] : "N/A";
+}
+
+/**
+ * One row of the "Multi-Network Comparison" table
+ */
+export function comparisonRow(report: SuiteReport): string {
+  const total = countTests(report);
+  const { passed } = report.totals;
+  const result =
+    passed === total && total > 0
+      ? `✅ **${passed}/${total} Passed**`
+      : report.skipReason
+        ? `⏭️ **0/${total} Skipped**`
+        : `❌ **${passed}/${total} Passed**`;
+  return `| \`${report.environment.network}\` | \`${report.environment.chainId}\` | ${result} | ${escapeCell(primaryFailureReason(report))} | ${supportLevel(report)} |`;
+}
+
+/**
+ * Header of the "Multi-Network Comparison" table
+ */
+export function comparisonHeader(report: SuiteReport): string[] {
+  return [
+    `| Network | Chain ID | Test Result | Primary Error / Reason | ${reportName(report)} Support |`,
+    "|---|---|---|---|---|",
+  ];
+}
+
+/**
+ * Render the suite report in the layout of docs/eip7702/EIP7702_Test_Report_Private_Net.md
+ */
+export function renderMarkdownReport(report: SuiteReport): string {
+  const name = reportName(report);
+  const { environment } = report;
+  const lines: string[] = [
+    `# ${name} Test Report`,
+    "",
+    "## Overview",
+    "",
+    `This report documents the execution results of the **${name} test suite** (\`${report.file}\`).  `,
+    `Generated automatically on ${report.generatedAt}.`,
+    "",
+    ...report.dimensions.map((dimension) => `- ${dimension.title}`),
+    "",
+    "",
+    "## Multi-Network Comparison",
+    "",
+    ...comparisonHeader(report),
+    comparisonRow(report),
+    "",
+    "",
+    `## Test Environment (${environment.network})`,
+    "",
+    `**Network:** \`${environment.network}\`  `,
+    `**Chain ID:** \`${environment.chainId}\``,
+    "",
+  ];
+
+  const accounts = Object.entries(environment.accounts);
+  if (accounts.length > 0) {
+    lines.push("**Accounts**", ...accounts.map(([role, address]) => `- ${role}: \`${address}\``), "");
+  }
+
+  lines.push(
+    "",
+    "## Coverage Summary",
+    "",
+    "| Dimension | Test Cases | Coverage | Result |",
+    "|---|---:|---|---|",
+    ...report.dimensions.map(
+      (dimension) =>
+        `| ${escapeCell(dimension.title)} | ${testCaseRange(dimension)} | ${escapeCell(dimension.tests.map(shortTitle).join(", "))} | ${dimensionState(dimension)} |`
+    ),
+    "",
+    `**Total:** \`${report.totals.passed}\` tests passed, \`${report.totals.failed}\` failed, \`${report.totals.pending}\` skipped`,
+    ""
+  );
+  if (report.skipReason) {
+    lines.push(`> skipped: unsupported by node — ${report.skipReason}`, "");
+  }
+
+  lines.push("## Detailed Results", "");
+  for (const dimension of report.dimensions) {
+    lines.push(`### ${dimension.title}`, "");
+    for (const test of dimension.tests) {
+      lines.push(...renderTest(test));
+    }
+  }
+
+  lines.push("", "## Conclusion", "", `Results of running the ${name} test suite:`, "", `### ${environment.network}`);
+  for (const dimension of report.dimensions) {
+    const done = dimension.tests.every((test) => test.state === "passed");
+    lines.push(`- [${done ? "x" : " "}] ${dimension.title} (${testCaseRange(dimension)}): ${dimensionState(dimension)}`);
+  }
+  lines.push("");
+
+  return lines.join("\n");
+}
+
+function renderTest(test: TestResult): string[] {
+  const lines = [`#### ${test.title}`, `- **Result**: ${STATE_LABEL[test.state]} (${test.durationMs} ms)`];
+  if (test.error) {
+    lines.push(`- **Error**: \`${escapeCell(test.error.split("\n")[0])}\``);
+  }
+  lines.push("");
+
+  const body = test.records.flatMap(renderRecord);
+  if (body.length > 0) {
+    lines.push("**Test Result:**", "", "```text", ...body, "```", "");
+  }
+  return lines;
+}
+
+function renderRecord(record: ReportRecord): string[] {
+  switch (record.kind) {
+    case "transaction":
+      return [
+        `【${record.label}】`,
+        `Transaction hash: ${record.hash}`,
+        `Block number: ${record.blockNumber}`,
+        `Gas used: ${record.gasUsed}`,
+        `Transaction type: ${record.type}`,
+        `Transaction status: ${record.status === 1 ? "Success (1)" : `Failed (${record.status})`}`,
+        "",
+      ];
+    case "note":
+      return [`${record.label}: ${record.value}`];
+    case "skip":
+      return [`skipped: unsupported by node — ${record.reason}`];
+  }
+}
+
+function allTests(report: SuiteReport): TestResult[] {
+  return report.dimensions.flatMap((dimension) => dimension.tests);
+}
+
+function countTests(report: SuiteReport): number {
+  return allTests(report).length;
+}
+
+function shortTitle(test: TestResult): string {
+  return test.title.replace(/^[A-Z]\d+\.\s*/, "").replace(/^Test\s+/, "");
+}
+
+function testCaseRange(dimension: DimensionResult): string {
+  const ids = dimension.tests.map((test) => test.id);
+  if (ids.length <= 1) return ids.join("");
+  // Contiguous ids collapse into a range (A1–A3), gaps are listed (C1, C4)
+  const numbers = ids.map((id) => Number(id.slice(1)));
+  const prefix = ids[0][0];
+  const contiguous =
+    ids.every((id) => id[0] === prefix) && numbers.every((n, i) => !Number.isNaN(n) && (i === 0 || n === numbers[i - 1] + 1));
+  return contiguous ? `${ids[0]}–${ids[ids.length - 1]}` : ids.join(", ");
+}
+
+function dimensionState(dimension: DimensionResult): string {
+  if (dimension.tests.some((test) => test.state === "failed")) return STATE_LABEL.failed;
+  if (dimension.tests.every((test) => test.state === "pending")) return STATE_LABEL.pending;
+  return STATE_LABEL.passed;
+}
+
+function escapeCell(value: string): string {
+  return value.replace(/\|/g, "\\|");
+}
@@ -0,0 +1,64 @@
+import type { LogEvent, LogSink } from "../logger";
+import type { ReportEnvironment, ReportRecord } from "./types";
+
+/**
+ * Log sink that collects report records per test (or suite, for hooks)
+ * @dev Events carry the suite/test they were logged in (see TestLogger), so tests and
+ *      helpers only log and never need to know where the report files them
+ */
+class ReportRecorder implements LogSink {
+  private readonly records = new Map<string, ReportRecord[]>();
+  private readonly environments = new Map<string, ReportEnvironment>();
+
+  write(event: LogEvent): void {
+    const scope = event.context.test ?? event.context.scope ?? "";
+    switch (event.type) {
+      case "receipt-confirmed":
+        this.add(scope, {
+          kind: "transaction",
+          label: event.label,
+          hash: event.hash,
+          blockNumber: event.blockNumber,
+          gasUsed: event.gasUsed,
+          status: event.status,
+          type: event.txType,
+          from: event.from,
+          to: event.to,
+        });
+        break;
+      case "note":
+        this.add(scope, { kind: "note", label: event.label, value: event.value });
+        break;
+      case "suite-skipped":
+        this.add(scope, { kind: "skip", reason: event.reason });
+        break;
+      case "environment":
+        // Environment belongs to the top-level suite, wherever it is logged from
+        this.environments.set(event.context.suite ?? "", {
+          network: event.network,
+          chainId: event.chainId,
+          accounts: event.accounts,
+        });
+        break;
+    }
+  }
+
+  recordsFor(scope: string): ReportRecord[] {
+    return this.records.get(scope) ?? [];
+  }
+
+  environmentFor(rootScope: string): ReportEnvironment | undefined {
+    return this.environments.get(rootScope);
+  }
+
+  reset(): void {
+    this.records.clear();
+    this.environments.clear();
+  }
+
+  private add(scope: string, record: ReportRecord): void {
+    this.records.set(scope, [...(this.records.get(scope) ?? []), record]);
+  }
+}
+
+export const reportRecorder = new ReportRecorder();
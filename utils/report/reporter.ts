@@ -0,0 +1,149 @@
+import fs from "fs";
+import path from "path";
+import Mocha from "mocha";
+import { logger } from "../logger";
+import { renderJUnitReport } from "./junit";
+import { renderMarkdownReport } from "./markdown";
+import { reportRecorder } from "./recorder";
+import { reportSlug } from "./slug";
+import type { DimensionResult, ReportRecord, SuiteReport, TestResult } from "./types";
+
+const { EVENT_RUN_END, EVENT_SUITE_BEGIN, EVENT_SUITE_END, EVENT_TEST_BEGIN, EVENT_TEST_END, EVENT_TEST_FAIL } =
+  Mocha.Runner.constants;
+
+/**
+ * Mocha reporter that keeps the default spec output and, at the end of the run, writes
+ * for every top-level suite:
+ *   reports/<network>/<suite>.md    report in the docs/eip7702 layout
+ *   reports/<network>/<suite>.json  the same data, machine readable
+ *   reports/<network>/junit.xml     all suites, for CI
+ *
+ * Output directory: reporterOptions.outputDir, else EIP_REPORT_DIR, else ./reports
+ */
+class EipReportReporter extends Mocha.reporters.Spec {
+  // Errors of failed before/after hooks, keyed by suite full title
+  private readonly hookErrors = new Map<string, string>();
+
+  constructor(runner: Mocha.Runner, options: Mocha.MochaOptions = {}) {
+    super(runner, options);
+    const outputDir: string =
+      options.reporterOptions?.outputDir ?? process.env.EIP_REPORT_DIR ?? path.join(process.cwd(), "reports");
+
+    // Report records are built from log events, which the logger stamps with the running suite/test
+    logger.addSink(reportRecorder);
+    runner.on(EVENT_SUITE_BEGIN, (suite: Mocha.Suite) => {
+      if (!suite.root) logger.enterSuite(suite.fullTitle());
+    });
+    runner.on(EVENT_SUITE_END, (suite: Mocha.Suite) => {
+      if (!suite.root) logger.leaveSuite(suite.fullTitle());
+    });
+    runner.on(EVENT_TEST_BEGIN, (test: Mocha.Test) => logger.startTest(test.fullTitle()));
+    runner.on(EVENT_TEST_END, (test: Mocha.Test) => logger.endTest(test.fullTitle()));
+    runner.on(EVENT_TEST_FAIL, (runnable: Mocha.Runnable, error: Error) => {
+      if (runnable instanceof Mocha.Hook && runnable.parent) {
+        this.hookErrors.set(runnable.parent.fullTitle(), `${runnable.title}: ${error.message}`);
+      }
+    });
+    runner.once(EVENT_RUN_END, () => {
+      const reports = runner.suite.suites.map((suite) => this.buildReport(suite));
+      // Several top-level describes in one file would otherwise overwrite each other: number them in file order
+      const seen = new Map<string, number>();
+      for (const report of reports) {
+        const count = (seen.get(report.slug) ?? 0) + 1;
+        seen.set(report.slug, count);
+        if (count > 1) report.slug += `-${count}`;
+      }
+      writeReports(reports, path.join(outputDir, currentNetwork()));
+    });
+  }
+
+  private buildReport(suite: Mocha.Suite): SuiteReport {
+    const rootScope = suite.fullTitle();
+    const skip = reportRecorder.recordsFor(rootScope).find((record) => record.kind === "skip");
+
+    // Tests directly under the top-level describe are grouped as their own dimension
+    const dimensions: DimensionResult[] = [];
+    if (suite.tests.length > 0) {
+      dimensions.push({ title: "General", tests: suite.tests.map((test) => this.buildTest(test)) });
+    }
+    for (const child of suite.suites) {
+      dimensions.push({ title: child.title, tests: collectTests(child).map((test) => this.buildTest(test)) });
+    }
+
+    const tests = dimensions.flatMap((dimension) => dimension.tests);
+    return {
+      slug: reportSlug(suite.file, suite.title, testsDirectory()),
+      title: suite.title,
+      file: suite.file ? path.relative(process.cwd(), suite.file) : "",
+      generatedAt: new Date().toISOString(),
+      environment: reportRecorder.environmentFor(rootScope) ?? { network: currentNetwork(), chainId: "N/A", accounts: {} },
+      dimensions,
+      totals: {
+        passed: tests.filter((test) => test.state === "passed").length,
+        failed: tests.filter((test) => test.state === "failed").length,
+        pending: tests.filter((test) => test.state === "pending").length,
+      },
+      ...(skip && skip.kind === "skip" ? { skipReason: skip.reason } : {}),
+    };
+  }
+
+  private buildTest(test: Mocha.Test): TestResult {
+    const idMatch = test.title.match(/^([A-Z]\d+)\./);
+    // A test that never ran failed because one of its suites' hooks did
+    const hookError = this.hookErrorFor(test.parent);
+    const state = test.state ?? "failed";
+    const error = test.state === "failed" ? (test.err?.message ?? "failed") : test.state === undefined ? hookError ?? "not run" : undefined;
+
+    return {
+      id: idMatch ? idMatch[1] : test.title,
+      title: test.title,
+      fullTitle: test.fullTitle(),
+      state,
+      durationMs: test.duration ?? 0,
+      ...(error ? { error } : {}),
+      records: reportRecorder.recordsFor(test.fullTitle()).filter((record: ReportRecord) => record.kind !== "skip"),
+    };
+  }
+
+  private hookErrorFor(suite: Mocha.Suite | undefined): string | undefined {
+    for (let current = suite; current; current = current.parent) {
+      const error = this.hookErrors.get(current.fullTitle());
+      if (error) return error;
+    }
+    return undefined;
+  }
+}
+
+function collectTests(suite: Mocha.Suite): Mocha.Test[] {
+  return [...suite.tests, ...suite.suites.flatMap(collectTests)];
+}
+
+function currentNetwork(): string {
+  try {
+    // Loaded inside `hardhat test`, so this returns the running runtime environment
+    return (require("hardhat") as typeof import("hardhat")).network.name;
+  } catch {
+    return process.env.HARDHAT_NETWORK ?? "unknown";
+  }
+}
+
+function testsDirectory(): string {
+  try {
+    return (require("hardhat") as typeof import("hardhat")).config.paths.tests;
+  } catch {
+    return path.join(process.cwd(), "test");
+  }
+}
+
+function writeReports(reports: SuiteReport[], directory: string): void {
+  if (reports.length === 0) return;
+  fs.mkdirSync(directory, { recursive: true });
+  for (const report of reports) {
+    fs.writeFileSync(path.join(directory, `${report.slug}.md`), renderMarkdownReport(report));
+    fs.writeFileSync(path.join(directory, `${report.slug}.json`), JSON.stringify(report, null, 2) + "\n");
+  }
+  fs.writeFileSync(path.join(directory, "junit.xml"), renderJUnitReport(reports));
+  logger.info(`📄 Reports written to ${path.relative(process.cwd(), directory) || "."}/ (${reports.map((r) => r.slug).join(", ")})`);
+}
+
+export = EipReportReporter;
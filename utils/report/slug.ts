@@ -0,0 +1,16 @@
+import path from "path";
+
+/**
+ * Report file name for a top-level suite: its spec path relative to the tests directory
+ * @dev test/eip4844.test.ts → "eip4844", test/utils/eip4844.test.ts → "utils-eip4844", so
+ *      specs sharing a basename get distinct names that do not depend on run order
+ */
+export function reportSlug(file: string | undefined, title: string, testsDir: string): string {
+  const relative = file ? path.relative(testsDir, file) : "";
+  const name = !relative || relative.startsWith("..") || path.isAbsolute(relative) ? path.basename(file ?? title) : relative;
+  return name
+    .replace(/\.test\.[jt]s$/, "")
+    .replace(/\.[jt]s$/, "")
+    .split(path.sep)
+    .join("-");
+}
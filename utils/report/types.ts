@@ -0,0 +1,74 @@
+/**
+ * Transaction observed during a test (type 0x04 sends, delegated calls)
+ */
+export interface TransactionRecord {
+  kind: "transaction";
+  label: string;
+  hash: string;
+  blockNumber: number;
+  gasUsed: string;
+  status: number | null;
+  type: number;
+  from: string;
+  to: string | null;
+}
+
+/**
+ * Free-form observation printed in the test's result block (values read back, nonces, ...)
+ */
+export interface NoteRecord {
+  kind: "note";
+  label: string;
+  value: string;
+}
+
+/**
+ * Reason a suite was skipped (e.g. node lacks a required capability)
+ */
+export interface SkipRecord {
+  kind: "skip";
+  reason: string;
+}
+
+export type ReportRecord = TransactionRecord | NoteRecord | SkipRecord;
+
+export interface ReportEnvironment {
+  network: string;
+  chainId: string;
+  // Role -> address, e.g. { Owner: "0x…", "Account A": "0x…" }
+  accounts: Record<string, string>;
+}
+
+export type TestState = "passed" | "failed" | "pending";
+
+export interface TestResult {
+  // Short id taken from the title prefix ("A1. …" -> "A1"), or the title itself
+  id: string;
+  title: string;
+  fullTitle: string;
+  state: TestState;
+  durationMs: number;
+  error?: string;
+  records: ReportRecord[];
+}
+
+/**
+ * Second-level describe block, e.g. "A. Core Functionality Test: Code Delegation"
+ */
+export interface DimensionResult {
+  title: string;
+  tests: TestResult[];
+}
+
+export interface SuiteReport {
+  // File-derived identifier used for output names, e.g. "eip7702"
+  slug: string;
+  // Top-level describe title
+  title: string;
+  file: string;
+  generatedAt: string;
+  environment: ReportEnvironment;
+  dimensions: DimensionResult[];
+  totals: { passed: number; failed: number; pending: number };
+  skipReason?: string;
+}
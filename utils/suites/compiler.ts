@@ -0,0 +1,26 @@
+import fs from "fs";
+import path from "path";
+import type { SolcUserConfig } from "hardhat/types";
+import { evmVersionFor } from "./hardfork";
+import { SUITES, suiteContractsDir } from "./registry";
+
+/**
+ * Per-file solc overrides that compile each suite's contracts for the suite's hardfork
+ * @param root Project root (the directory of hardhat.config.ts)
+ * @param base Compiler used for everything else; overrides only change its evmVersion
+ * @dev Hardhat overrides are keyed by source name, so the suite directories are listed at config load.
+ *      Files whose suite needs the base evmVersion get no override.
+ */
+export function suiteCompilerOverrides(root: string, base: SolcUserConfig): Record<string, SolcUserConfig> {
+  const overrides: Record<string, SolcUserConfig> = {};
+  for (const suite of SUITES) {
+    const evmVersion = evmVersionFor(suite.hardfork);
+    const dir = suiteContractsDir(suite);
+    if (evmVersion === base.settings?.evmVersion || !fs.existsSync(path.join(root, dir))) continue;
+
+    for (const file of fs.readdirSync(path.join(root, dir)).filter((name) => name.endsWith(".sol"))) {
+      overrides[`${dir}/${file}`] = { ...base, settings: { ...base.settings, evmVersion } };
+    }
+  }
+  return overrides;
+}
@@ -0,0 +1,57 @@
+import { getNetworkCapabilities, missingCapabilities } from "../capabilities";
+import type { NetworkCapabilities, ProbeOptions } from "../capabilities";
+import { logger } from "../logger";
+import { compareHardforks, isHardfork } from "./hardfork";
+import { getSuite } from "./registry";
+import type { SuiteId, SuiteRequirements } from "./types";
+
+export interface SuiteGateOptions extends ProbeOptions {
+  // Hardfork the network is configured with (the in-process network's `hardfork`); unknown for RPC networks
+  hardfork?: string;
+}
+
+/**
+ * Hardfork a Hardhat network config pins: set for the in-process network, absent for RPC networks
+ */
+export function configuredHardfork(config: object): string | undefined {
+  return "hardfork" in config && typeof config.hardfork === "string" ? config.hardfork : undefined;
+}
+
+/**
+ * Why the network cannot run the suite, or undefined if nothing rules it out
+ * @dev A configured hardfork older than the suite's is decisive on its own. Otherwise the
+ *      suite's capabilities are checked against the probe results, when given.
+ */
+export function suiteSkipReason(
+  suite: SuiteRequirements,
+  network: { network: string; hardfork?: string },
+  capabilities?: NetworkCapabilities
+): string | undefined {
+  const requirement = `requires ${suite.hardfork} (${suite.eips.map((eip) => `EIP-${eip}`).join(", ")})`;
+  if (isHardfork(network.hardfork) && compareHardforks(network.hardfork, suite.hardfork) < 0) {
+    return `${requirement}; ${network.network} runs ${network.hardfork}`;
+  }
+  if (!capabilities) return undefined;
+
+  const missing = missingCapabilities(capabilities, suite.capabilities);
+  return missing.length > 0 ? `${requirement}: ${missing.join("; ")}` : undefined;
+}
+
+/**
+ * Skip the current Mocha suite when the network's hardfork or capabilities cannot run it
+ * @dev Call from the suite's before() hook. A configured hardfork that is too old skips
+ *      without probing; every other network is probed once per run (see getNetworkCapabilities).
+ */
+export async function skipUnlessSuiteSupported(context: Mocha.Context, options: SuiteGateOptions, id: SuiteId): Promise<void> {
+  const suite = getSuite(id);
+  let reason = suiteSkipReason(suite, options);
+  if (!reason) {
+    reason = suiteSkipReason(suite, options, await getNetworkCapabilities(options));
+  }
+  if (!reason) return;
+
+  const { chainId } = await options.provider.getNetwork();
+  logger.environment({ network: options.network, chainId: chainId.toString(), accounts: {} });
+  logger.suiteSkipped(reason);
+  context.skip();
+}
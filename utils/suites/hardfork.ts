@@ -0,0 +1,33 @@
+import type { Hardfork } from "../capabilities/types";
+
+// Known hardforks, oldest first
+export const HARDFORKS: readonly Hardfork[] = ["london", "shanghai", "cancun", "prague"];
+
+export function isHardfork(name: string | undefined): name is Hardfork {
+  return HARDFORKS.includes(name as Hardfork);
+}
+
+/**
+ * Negative if a is older than b, 0 if equal, positive if a is newer
+ */
+export function compareHardforks(a: Hardfork, b: Hardfork): number {
+  return HARDFORKS.indexOf(a) - HARDFORKS.indexOf(b);
+}
+
+/**
+ * Newest of the given hardforks
+ * @throws Error if the list is empty
+ */
+export function latestHardfork(hardforks: Hardfork[]): Hardfork {
+  if (hardforks.length === 0) {
+    throw new Error("❌ latestHardfork() needs at least one hardfork");
+  }
+  return hardforks.reduce((latest, hardfork) => (compareHardforks(hardfork, latest) > 0 ? hardfork : latest));
+}
+
+/**
+ * solc `evmVersion` targeting a hardfork (solc uses the same names for every fork listed here)
+ */
+export function evmVersionFor(hardfork: Hardfork): string {
+  return hardfork;
+}
@@ -0,0 +1,5 @@
+export * from "./types";
+export * from "./hardfork";
+export * from "./registry";
+export * from "./compiler";
+export * from "./gate";
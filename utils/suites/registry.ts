@@ -0,0 +1,64 @@
+import { evmVersionFor, latestHardfork } from "./hardfork";
+import type { SuiteId, SuiteRequirements } from "./types";
+
+/**
+ * Required hardfork, EIPs and capabilities of every EIP suite in test/
+ * @dev Read by hardhat.config.ts (compiler evmVersion, in-process hardfork) and by the
+ *      suites themselves (skipUnlessSuiteSupported), so both stay in one place
+ */
+export const SUITES: readonly SuiteRequirements[] = [
+  { id: "eip7702", hardfork: "prague", eips: [7702], capabilities: ["tx-type-4"] },
+  { id: "eip1153", hardfork: "cancun", eips: [1153], capabilities: ["opcode-tstore-tload"] },
+  { id: "eip4844", hardfork: "cancun", eips: [4844, 7516], capabilities: ["tx-type-3", "opcode-blobhash", "opcode-blobbasefee"] },
+  {
+    id: "eip2537",
+    hardfork: "prague",
+    eips: [2537],
+    capabilities: [
+      "precompile-bls12-g1add",
+      "precompile-bls12-g1msm",
+      "precompile-bls12-g2add",
+      "precompile-bls12-g2msm",
+      "precompile-bls12-pairing",
+      "precompile-bls12-map-fp-to-g1",
+      "precompile-bls12-map-fp2-to-g2",
+    ],
+  },
+  { id: "eip2935", hardfork: "prague", eips: [2935], capabilities: ["system-history-storage"] },
+  { id: "eip5656", hardfork: "cancun", eips: [5656], capabilities: ["opcode-mcopy"] },
+  // The floor itself cannot be probed without measuring it; type 0x04 ships in the same fork
+  { id: "eip7623", hardfork: "prague", eips: [7623], capabilities: ["tx-type-4"] },
+  // SELFDESTRUCT exists on every fork, so EIP-6780 cannot be probed read-only; MCOPY ships in the same fork
+  { id: "eip6780", hardfork: "cancun", eips: [6780], capabilities: ["opcode-mcopy"] },
+];
+
+/**
+ * @throws Error if no suite is registered under id
+ */
+export function getSuite(id: SuiteId): SuiteRequirements {
+  const suite = SUITES.find((candidate) => candidate.id === id);
+  if (!suite) {
+    throw new Error(`❌ Unknown suite "${id}": register it in utils/suites/registry.ts`);
+  }
+  return suite;
+}
+
+export function suiteTestFile(suite: SuiteRequirements): string {
+  return `test/${suite.id}.test.ts`;
+}
+
+export function suiteContractsDir(suite: SuiteRequirements): string {
+  return `contracts/${suite.id}`;
+}
+
+export function suiteEvmVersion(id: SuiteId): string {
+  return evmVersionFor(getSuite(id).hardfork);
+}
+
+/**
+ * Hardfork of the in-process Hardhat network when HARDHAT_HARDFORK is not set:
+ * the newest any suite needs, so a plain `npx hardhat test` can run all of them
+ */
+export function defaultLocalHardfork(): string {
+  return latestHardfork(SUITES.map((suite) => suite.hardfork));
+}
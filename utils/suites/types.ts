@@ -0,0 +1,18 @@
+import type { CapabilityId, Hardfork } from "../capabilities/types";
+
+export type SuiteId = "eip7702" | "eip1153" | "eip4844" | "eip2537" | "eip2935" | "eip5656" | "eip7623" | "eip6780";
+
+/**
+ * What an EIP suite needs from the network it runs on
+ *   test file:  test/<id>.test.ts
+ *   contracts:  contracts/<id>/ (compiled with the evmVersion of `hardfork`)
+ */
+export interface SuiteRequirements {
+  id: SuiteId;
+  // Earliest hardfork that activates everything the suite tests
+  hardfork: Hardfork;
+  // EIPs under test, e.g. [4844, 7516]
+  eips: number[];
+  // Probed on networks whose hardfork is not configured locally; all must be supported
+  capabilities: CapabilityId[];
+}